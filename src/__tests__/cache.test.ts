@@ -0,0 +1,172 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  refreshIssueCorpus,
+  filterIssueCorpus,
+  verdictKey,
+  createVerdictCache,
+  loadVerdictCache,
+  saveVerdictCache,
+  formatHitRate,
+} from "../cache";
+import type { Issue } from "../types";
+import { makeIssue, makeOctokit } from "./fixtures";
+
+let cacheDir: string;
+
+beforeEach(async () => {
+  cacheDir = await mkdtemp(join(tmpdir(), "duplicate-cache-"));
+});
+
+afterEach(async () => {
+  await rm(cacheDir, { recursive: true, force: true });
+});
+
+describe("refreshIssueCorpus", () => {
+  it("should fetch everything first and only updates afterwards", async () => {
+    const first = makeOctokit({ issues: [makeIssue(1), makeIssue(2)] });
+    const cold = await refreshIssueCorpus({
+      octokit: first.octokit,
+      owner: "octo",
+      repo: "app",
+      cacheDir,
+    });
+
+    expect(cold).toMatchObject({ cached: 0, updated: 2 });
+    expect(first.calls.requests[0]).not.toHaveProperty("since");
+
+    const edited = makeIssue(2, { title: "Edited" });
+    const second = makeOctokit({ issues: [edited, makeIssue(3)] });
+    const warm = await refreshIssueCorpus({
+      octokit: second.octokit,
+      owner: "octo",
+      repo: "app",
+      cacheDir,
+    });
+
+    expect(warm).toMatchObject({ cached: 2, updated: 2 });
+    expect(second.calls.requests[0]).toHaveProperty("since");
+    expect(warm.issues.map(({ number, title }) => [number, title])).toEqual([
+      [3, "Issue 3"],
+      [2, "Edited"],
+      [1, "Issue 1"],
+    ]);
+  });
+
+  it("should fetch the missed items again after a failed page", async () => {
+    const params = { owner: "octo", repo: "app", cacheDir };
+    const cold = await refreshIssueCorpus({
+      ...params,
+      octokit: makeOctokit({ failing: true }).octokit,
+    });
+    expect(cold.issues).toEqual([]);
+
+    const first = makeOctokit({ issues: [makeIssue(1)] });
+    await refreshIssueCorpus({ ...params, octokit: first.octokit });
+    // The failed first fetch wasn't saved, so everything was fetched
+    expect(first.calls.requests[0]).not.toHaveProperty("since");
+
+    const corpusFile = join(cacheDir, "issues-octo-app.json");
+    const { fetchedAt } = JSON.parse(await readFile(corpusFile, "utf8"));
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    const partial = await refreshIssueCorpus({
+      ...params,
+      octokit: makeOctokit({ failing: true }).octokit,
+    });
+    expect(partial.issues.map(({ number }) => number)).toEqual([1]);
+
+    const second = makeOctokit();
+    await refreshIssueCorpus({ ...params, octokit: second.octokit });
+    expect(second.calls.requests[0]?.since).toBe(fetchedAt);
+  });
+});
+
+describe("filterIssueCorpus", () => {
+  const issues = [
+    makeIssue(1),
+    makeIssue(2, { state: "closed" }),
+    makeIssue(3, { kind: "pull_request" }),
+    makeIssue(4, { updatedAt: "2024-01-01T00:00:00Z" }),
+    makeIssue(5, { labels: ["wontfix"] }),
+  ];
+
+  it("should apply the candidate filters", () => {
+    const numbers = (filtered: Issue[]) => filtered.map(({ number }) => number);
+
+    expect(
+      numbers(
+        filterIssueCorpus(issues, {
+          issueNumber: 1,
+          issueStateFilter: "open",
+          includePullRequests: false,
+        }),
+      ),
+    ).toEqual([4, 5]);
+    expect(
+      numbers(
+        filterIssueCorpus(issues, {
+          issueStateFilter: "all",
+          timeFilter: "2024-06-01T00:00:00Z",
+          includePullRequests: true,
+        }),
+      ),
+    ).toEqual([1, 2, 3, 5]);
+    expect(
+      numbers(
+        filterIssueCorpus(issues, {
+          issueStateFilter: "open",
+          includePullRequests: false,
+          candidateFilters: {
+            includeLabels: [],
+            excludeLabels: ["wontfix"],
+            excludeAuthors: [],
+          },
+        }),
+      ),
+    ).toEqual([1, 4]);
+  });
+});
+
+describe("verdict cache", () => {
+  it("should change the key when any part changes", () => {
+    expect(verdictKey(["model", "a", "b"])).toBe(
+      verdictKey(["model", "a", "b"]),
+    );
+    expect(verdictKey(["model", "a", "b"])).not.toBe(
+      verdictKey(["model", "a", "c"]),
+    );
+  });
+
+  it("should count hits and misses", () => {
+    const cache = createVerdictCache();
+    cache.set("duplicate", { issue: 5, likelihood: "high" });
+    cache.set("distinct", null);
+
+    expect(cache.get("duplicate")).toEqual({ issue: 5, likelihood: "high" });
+    expect(cache.get("distinct")).toBeNull();
+    expect(cache.get("unknown")).toBeUndefined();
+    expect(cache.stats).toEqual({ hits: 2, misses: 1 });
+    expect(formatHitRate(cache.stats)).toBe("67%");
+  });
+
+  it("should save, drop stale verdicts and load again", async () => {
+    const cache = createVerdictCache({
+      stale: { verdict: null, usedAt: "2020-01-01T00:00:00Z" },
+    });
+    cache.set("fresh", { issue: 1, likelihood: "low" });
+
+    await saveVerdictCache(cacheDir, cache);
+    const loaded = await loadVerdictCache(cacheDir);
+
+    expect(Object.keys(loaded.entries)).toEqual(["fresh"]);
+    expect(loaded.get("fresh")).toEqual({ issue: 1, likelihood: "low" });
+  });
+
+  it("should start empty without a cache file", async () => {
+    const loaded = await loadVerdictCache(join(cacheDir, "missing"));
+    expect(loaded.entries).toEqual({});
+    expect(formatHitRate(loaded.stats)).toBe("n/a");
+  });
+});
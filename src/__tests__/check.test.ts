@@ -0,0 +1,99 @@
+import { describe, it, expect } from "bun:test";
+import { CHECK_DEFAULTS, applyFindings, silentSummary } from "../check";
+import {
+  MAX_OUTPUT_ITEMS,
+  buildCloseNoticeBody,
+  parseCloseNotice,
+} from "../utils";
+import { estimateTokens } from "../tokens";
+import { makeIssue, makeOctokit } from "./fixtures";
+
+describe("applyFindings auto-close", () => {
+  const notice = buildCloseNoticeBody({
+    duplicateOf: 1,
+    closeAfter: "2025-03-04T00:00:00.000Z",
+  });
+  const params = {
+    owner: "octo",
+    repo: "app",
+    issueNumber: 10,
+    issuesToCompare: [makeIssue(1), makeIssue(2)],
+    commentMode: "none" as const,
+    maxResults: 5,
+    labels: [],
+    likelihoodLabels: {},
+    autoClose: { label: "auto-close", delayHours: 72 },
+    summary: silentSummary,
+  };
+
+  it("should keep a notice pointing at the same issue", async () => {
+    const { octokit, calls } = makeOctokit({
+      issues: [makeIssue(10, { labels: ["auto-close"] })],
+      comments: { 10: [notice] },
+    });
+
+    await applyFindings({
+      ...params,
+      octokit,
+      findings: [{ issue: 1, likelihood: "high" }],
+    });
+
+    expect(calls).toMatchObject({
+      created: [],
+      updated: [],
+      deleted: [],
+      removed: [],
+    });
+  });
+
+  it("should retarget the notice when the clear duplicate changed", async () => {
+    const { octokit, calls } = makeOctokit({
+      issues: [makeIssue(10, { labels: ["auto-close"] })],
+      comments: { 10: [notice] },
+    });
+
+    await applyFindings({
+      ...params,
+      octokit,
+      findings: [{ issue: 2, likelihood: "high" }],
+    });
+
+    expect(calls.created).toEqual([]);
+    expect(calls.updated).toHaveLength(1);
+    expect(parseCloseNotice(calls.updated[0]!)?.duplicateOf).toBe(2);
+  });
+
+  it("should cancel the pending close without a clear duplicate", async () => {
+    const { octokit, calls } = makeOctokit({
+      issues: [makeIssue(10, { labels: ["bug", "auto-close"] })],
+      comments: { 10: ["Unrelated", notice] },
+    });
+
+    await applyFindings({
+      ...params,
+      octokit,
+      findings: [{ issue: 2, likelihood: "medium" }],
+    });
+
+    expect(calls.deleted).toEqual([1]);
+    expect(calls.removed).toEqual(["auto-close"]);
+  });
+});
+
+describe("CHECK_DEFAULTS", () => {
+  it("should leave room for a full-size reply in max_tokens", () => {
+    const sentence = (length: number) =>
+      "The upload fails with a timeout error ".repeat(10).slice(0, length);
+    const reply = Array.from({ length: MAX_OUTPUT_ITEMS }, (_, i) => ({
+      issue: 10000 + i,
+      repo: "octo-org/another-repo",
+      likelihood: "medium",
+      reason: sentence(200),
+      evidence: { current: sentence(150), candidate: sentence(150) },
+    }));
+
+    expect(estimateTokens(JSON.stringify(reply))).toBeLessThanOrEqual(
+      CHECK_DEFAULTS.maxTokens,
+    );
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect } from "bun:test";
+import { parseCliOptions, parseEvalOptions } from "../cli";
+
+const required = ["check", "--repo", "octo/app", "--issue", "12"];
+
+describe("parseCliOptions", () => {
+  it("should build the check configuration from flags", () => {
+    const cli = parseCliOptions(
+      [
+        ...required,
+        "--model",
+        "gpt-4.1",
+        "--provider",
+        "openai",
+        "--format",
+        "json",
+        "--min-likelihood",
+        "medium",
+        "--rerank",
+        "false",
+        "--apply",
+      ],
+      { GITHUB_TOKEN: "gh-token" },
+    );
+
+    expect(cli).toMatchObject({
+      format: "json",
+      apply: true,
+      githubToken: "gh-token",
+      commentMode: "upsert",
+      maxResults: 10,
+      config: {
+        owner: "octo",
+        repo: "app",
+        issueNumber: 12,
+        provider: "openai",
+        endpoint: "https://api.openai.com/v1",
+        aiToken: "",
+        modelName: "gpt-4.1",
+        minLikelihood: "medium",
+        rerank: false,
+        requireEvidence: true,
+        matchErrorSignatures: true,
+        batchSize: 10,
+      },
+    });
+  });
+
+  it("should fall back to environment variables", () => {
+    const cli = parseCliOptions(required, {
+      DUPLICATE_IDENTIFIER_MODEL: "openai/gpt-4.1",
+      DUPLICATE_IDENTIFIER_TOKEN: "gh-token",
+      DUPLICATE_IDENTIFIER_BATCH_SIZE: "20",
+      DUPLICATE_IDENTIFIER_INCLUDE_PULL_REQUESTS: "true",
+    });
+
+    expect(cli?.config).toMatchObject({
+      modelName: "openai/gpt-4.1",
+      provider: "azure",
+      aiToken: "gh-token",
+      batchSize: 20,
+      includePullRequests: true,
+    });
+    expect(cli?.format).toBe("markdown");
+    expect(cli?.apply).toBe(false);
+  });
+
+  it("should return undefined when help is requested", () => {
+    expect(parseCliOptions(["--help"], {})).toBeUndefined();
+  });
+
+  it("should throw for missing required options", () => {
+    expect(() => parseCliOptions(required, {})).toThrow(
+      "Required options are not set",
+    );
+  });
+
+  it("should throw for unknown commands and formats", () => {
+    expect(() => parseCliOptions(["close"], {})).toThrow(
+      "Unknown command: close",
+    );
+    expect(() =>
+      parseCliOptions(
+        [...required, "--model", "m", "--token", "t", "--format", "csv"],
+        {},
+      ),
+    ).toThrow("Invalid format: csv. Valid formats are: markdown, json");
+  });
+});
+
+describe("parseEvalOptions", () => {
+  it("should build one variant per model", () => {
+    const cli = parseEvalOptions(
+      [
+        "eval",
+        "--dataset",
+        "dataset.json",
+        "--model",
+        "gpt-4.1, llama3.1",
+        "--provider",
+        "ollama",
+      ],
+      {},
+    );
+
+    expect(cli?.datasetPath).toBe("dataset.json");
+    expect(cli?.variants).toEqual([
+      { name: "gpt-4.1", modelName: "gpt-4.1" },
+      { name: "llama3.1", modelName: "llama3.1" },
+    ]);
+    expect(cli?.settings).toMatchObject({
+      provider: "ollama",
+      endpoint: "http://localhost:11434",
+    });
+  });
+
+  it("should require a dataset source and a model or export", () => {
+    expect(() => parseEvalOptions(["eval", "--model", "m"], {})).toThrow(
+      "Required options are not set: --dataset <file>",
+    );
+    expect(() =>
+      parseEvalOptions(["eval", "--repo", "octo/app"], { GITHUB_TOKEN: "t" }),
+    ).toThrow("Required options are not set: --model");
+    expect(
+      parseEvalOptions(["eval", "--repo", "octo/app", "--export", "out.json"], {
+        GITHUB_TOKEN: "t",
+      })?.variants,
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, it, expect } from "bun:test";
+import { parseSlashCommand, dismissMatches } from "../commands";
+import { silentSummary } from "../check";
+import {
+  COMMENT_MARKER,
+  buildCloseNoticeBody,
+  buildFindingsMarker,
+  parseFindingsMarker,
+} from "../utils";
+import { makeIssue, makeOctokit } from "./fixtures";
+
+describe("parseSlashCommand", () => {
+  it("should read the first command of a comment", () => {
+    expect(parseSlashCommand("/duplicates check")).toEqual({ name: "check" });
+    expect(
+      parseSlashCommand(
+        "Thanks!\n/duplicates check --state all\n/duplicate-of #1",
+      ),
+    ).toEqual({ name: "check", issueStateFilter: "all" });
+    expect(parseSlashCommand("/duplicates check --state=closed")).toEqual({
+      name: "check",
+      issueStateFilter: "closed",
+    });
+    expect(parseSlashCommand("/not-duplicate #42, octo/sdk#7")).toEqual({
+      name: "not-duplicate",
+      candidates: [{ issue: 42 }, { issue: 7, repo: "octo/sdk" }],
+    });
+    expect(parseSlashCommand("  /duplicate-of #42")).toEqual({
+      name: "duplicate-of",
+      issue: 42,
+    });
+  });
+
+  it("should ignore comments without a command", () => {
+    expect(parseSlashCommand("Looks like a duplicate of #42")).toBeUndefined();
+    expect(parseSlashCommand("> /duplicate-of #42")).toBeUndefined();
+    expect(parseSlashCommand("/duplicatesfoo")).toBeUndefined();
+  });
+
+  it("should reject malformed commands", () => {
+    expect(() => parseSlashCommand("/duplicates recheck")).toThrow(
+      "Unknown command: /duplicates recheck",
+    );
+    expect(() => parseSlashCommand("/duplicates check --state")).toThrow(
+      "--state needs a value",
+    );
+    expect(() => parseSlashCommand("/duplicates check --state old")).toThrow(
+      "Invalid issue state: old",
+    );
+    expect(() => parseSlashCommand("/duplicates check --all")).toThrow(
+      "Unknown option for /duplicates check: --all",
+    );
+    expect(() => parseSlashCommand("/not-duplicate")).toThrow(
+      "/not-duplicate needs at least one issue",
+    );
+    expect(() => parseSlashCommand("/not-duplicate 42")).toThrow(
+      "Invalid issue reference: 42",
+    );
+    expect(() => parseSlashCommand("/duplicate-of #1 #2")).toThrow(
+      "/duplicate-of needs exactly one issue",
+    );
+    expect(() => parseSlashCommand("/duplicate-of octo/sdk#7")).toThrow(
+      "/duplicate-of only accepts issues of this repository",
+    );
+  });
+});
+
+describe("dismissMatches", () => {
+  const params = {
+    owner: "octo",
+    repo: "app",
+    issueNumber: 10,
+    maxResults: 10,
+    labels: ["triage"],
+    likelihoodLabels: { high: ["duplicate"], medium: ["possible-duplicate"] },
+    autoCloseLabel: "auto-close",
+    summary: silentSummary,
+  };
+
+  it("should rebuild the comment without the dismissed matches", async () => {
+    const { octokit, calls } = makeOctokit({
+      issues: [
+        makeIssue(10, { labels: ["triage", "duplicate", "auto-close"] }),
+      ],
+      comments: {
+        10: [
+          `${COMMENT_MARKER}\nMatches\n${buildFindingsMarker([
+            { issue: 1, likelihood: "high", reason: "Same crash" },
+            { issue: 2, likelihood: "medium", reason: "Same screen" },
+          ])}`,
+          buildCloseNoticeBody({
+            duplicateOf: 1,
+            closeAfter: "2025-03-04T00:00:00.000Z",
+          }),
+        ],
+      },
+    });
+
+    const updated = await dismissMatches({
+      ...params,
+      octokit,
+      candidates: [{ issue: 1 }],
+    });
+
+    expect(updated).toBe(true);
+    expect(calls.updated).toHaveLength(1);
+    expect(calls.updated[0]).toContain("**Issue** #2: **medium**");
+    expect(calls.updated[0]).not.toContain("#1:");
+    expect(parseFindingsMarker(calls.updated[0]!)).toEqual([
+      { issue: 2, likelihood: "medium", reason: "Same screen" },
+    ]);
+    expect(calls.removed).toEqual(["duplicate", "auto-close"]);
+  });
+
+  it("should delete the comment and labels once no match is left", async () => {
+    const { octokit, calls } = makeOctokit({
+      issues: [makeIssue(10, { labels: ["triage", "duplicate"] })],
+      comments: {
+        10: [
+          `${COMMENT_MARKER}\n${buildFindingsMarker([
+            { issue: 1, likelihood: "high" },
+          ])}`,
+        ],
+      },
+    });
+
+    await dismissMatches({ ...params, octokit, candidates: [{ issue: 1 }] });
+
+    expect(calls.deleted).toEqual([0]);
+    expect(calls.removed).toEqual(["triage", "duplicate"]);
+  });
+
+  it("should update the same comment as upserts with several comments", async () => {
+    const marked = `${COMMENT_MARKER}\n${buildFindingsMarker([
+      { issue: 1, likelihood: "high" },
+      { issue: 2, likelihood: "low" },
+    ])}`;
+    const { octokit, calls } = makeOctokit({
+      comments: { 10: [marked, "Thanks", marked] },
+    });
+
+    await dismissMatches({ ...params, octokit, candidates: [{ issue: 1 }] });
+
+    expect(calls.updated).toHaveLength(1);
+    expect(calls.updatedIds).toEqual([0]);
+  });
+
+  it("should not update comments without findings", async () => {
+    const { octokit, calls } = makeOctokit({
+      comments: { 10: [`${COMMENT_MARKER}\nOld`] },
+    });
+
+    expect(
+      await dismissMatches({ ...params, octokit, candidates: [{ issue: 1 }] }),
+    ).toBe(false);
+    expect(calls.updated).toEqual([]);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect } from "bun:test";
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { load } from "js-yaml";
+import { CONFIG_INPUTS, parseRepoConfig } from "../config";
+
+const PATH = ".github/duplicate-identifier.yml";
+
+describe("parseRepoConfig", () => {
+  it("should read inputs, prompt additions and the comment template", () => {
+    const config = parseRepoConfig(
+      [
+        "model: openai/gpt-4.1",
+        "max_results: 5",
+        "rerank: false",
+        "exclude_labels: [wontfix, spam]",
+        "likelihood_labels:",
+        "  high: duplicate",
+        "  medium: [possible-duplicate, triage]",
+        "prompt_additions: Renderer backends are different bugs.",
+        'comment_template: "- {{ref}}: {{title}}"',
+        "comment_footer: See CONTRIBUTING.md.",
+        "milestone:",
+      ].join("\n"),
+      PATH,
+    );
+
+    expect(config).toEqual({
+      inputs: {
+        model: "openai/gpt-4.1",
+        max_results: "5",
+        rerank: "false",
+        exclude_labels: "wontfix,spam",
+        likelihood_labels:
+          "high:duplicate,medium:possible-duplicate,medium:triage",
+      },
+      promptAdditions: "Renderer backends are different bugs.",
+      commentTemplate: {
+        item: "- {{ref}}: {{title}}",
+        footer: "See CONTRIBUTING.md.",
+      },
+    });
+  });
+
+  it("should accept an empty file", () => {
+    expect(parseRepoConfig("# nothing yet\n", PATH)).toEqual({
+      inputs: {},
+      commentTemplate: {},
+    });
+  });
+
+  it("should reject invalid files with the offending key", () => {
+    expect(() => parseRepoConfig("model: [unclosed", PATH)).toThrow(
+      `Invalid config file ${PATH}:`,
+    );
+    expect(() => parseRepoConfig("- model", PATH)).toThrow(
+      "expected a mapping of settings at the top level",
+    );
+    expect(() => parseRepoConfig("ai_token: secret", PATH)).toThrow(
+      '"ai_token" can only be set as an action input in the workflow',
+    );
+    expect(() => parseRepoConfig("max_result: 5", PATH)).toThrow(
+      'unknown key "max_result". Valid keys are: auto_close,',
+    );
+    expect(() => parseRepoConfig("labels: [[nested]]", PATH)).toThrow(
+      '"labels" must be a string, number, boolean, list or mapping of those',
+    );
+    expect(() => parseRepoConfig("prompt_additions: [a]", PATH)).toThrow(
+      '"prompt_additions" must be a string',
+    );
+    expect(() =>
+      parseRepoConfig('comment_template: "{{ref}} {{author}}"', PATH),
+    ).toThrow(
+      'unknown placeholder {{author}} in "comment_template". Valid placeholders are: number, ref,',
+    );
+  });
+
+  it("should cover every action input except the workflow-only ones", () => {
+    const action = load(
+      readFileSync(join(import.meta.dir, "../../action.yml"), "utf8"),
+    ) as { inputs: Record<string, unknown> };
+    const workflowOnly = [
+      "token",
+      "ai_token",
+      "config_path",
+      "issue_number",
+      "issue_title",
+      "issue_body",
+      "owner",
+      "repo_name",
+    ];
+
+    expect(
+      Object.keys(action.inputs)
+        .filter((name) => !workflowOnly.includes(name))
+        .sort(),
+    ).toEqual([...CONFIG_INPUTS].sort());
+  });
+});
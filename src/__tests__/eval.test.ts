@@ -0,0 +1,224 @@
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import type { Server } from "bun";
+import { GitHub } from "@actions/github/lib/utils";
+import {
+  EVAL_DATASET_VERSION,
+  buildEvalDataset,
+  scoreEvalCase,
+  runEval,
+  formatEvalReport,
+} from "../eval";
+import { CHECK_DEFAULTS } from "../check";
+import type { CheckSettings, EvalDataset, EvalMetrics } from "../types";
+import { makeIssue, makeOctokit } from "./fixtures";
+
+const emptyMetrics: EvalMetrics = {
+  cases: 0,
+  failedCases: 0,
+  truePositives: 0,
+  falsePositives: 0,
+  falseNegatives: 0,
+  precision: null,
+  recall: null,
+  calibration: {
+    high: { predicted: 0, correct: 0 },
+    medium: { predicted: 0, correct: 0 },
+    low: { predicted: 0, correct: 0 },
+  },
+};
+
+describe("buildEvalDataset", () => {
+  it("should collect issues closed as duplicates with earlier candidates", async () => {
+    const issues = [
+      makeIssue(1, { title: "Login crash on startup" }),
+      makeIssue(2, { title: "Dark mode colors" }),
+      makeIssue(3, {
+        title: "Crash at login",
+        state: "closed",
+        stateReason: "duplicate",
+      }),
+      makeIssue(4, { title: "Crash when logging in" }),
+      makeIssue(5, { state: "closed", stateReason: "duplicate" }),
+    ];
+    const { octokit } = makeOctokit({
+      issues,
+      comments: {
+        3: ["Duplicate of #1"],
+        5: ["Closing, see the other issue."],
+      },
+    });
+
+    const dataset = await buildEvalDataset({
+      octokit,
+      owner: "octo",
+      repo: "app",
+      maxCases: 10,
+      poolSize: 5,
+    });
+
+    expect(dataset.version).toBe(EVAL_DATASET_VERSION);
+    expect(dataset.repo).toBe("octo/app");
+    expect(dataset.cases).toHaveLength(1);
+    const [evalCase] = dataset.cases;
+    expect(evalCase!.issue.number).toBe(3);
+    expect(evalCase!.duplicateOf).toEqual([1]);
+    // Issue 4 was opened later and 5 is a duplicate itself
+    expect(evalCase!.candidates.map(({ number }) => number)).toEqual([2, 1]);
+  });
+});
+
+describe("scoreEvalCase", () => {
+  it("should count hits, misses and likelihood calibration", () => {
+    const first = scoreEvalCase(
+      emptyMetrics,
+      [
+        { issue: 1, likelihood: "high" },
+        { issue: 2, likelihood: "low" },
+        { issue: 9, repo: "octo/other", likelihood: "high" },
+      ],
+      [1],
+    );
+    const second = scoreEvalCase(first, [], [4]);
+
+    expect(second).toMatchObject({
+      cases: 2,
+      truePositives: 1,
+      falsePositives: 1,
+      falseNegatives: 1,
+      precision: 0.5,
+      recall: 0.5,
+      calibration: {
+        high: { predicted: 1, correct: 1 },
+        medium: { predicted: 0, correct: 0 },
+        low: { predicted: 1, correct: 0 },
+      },
+    });
+  });
+});
+
+describe("runEval", () => {
+  // Stub model server answering like an OpenAI-compatible endpoint
+  let server: Server;
+  const models: string[] = [];
+
+  beforeAll(() => {
+    server = Bun.serve({
+      port: 0,
+      fetch: async (request) => {
+        const { model } = (await request.json()) as { model: string };
+        models.push(model);
+        const content =
+          model === "good-model"
+            ? '[{"issue": 1, "likelihood": "high", "reason": "Same crash"}]'
+            : '[{"issue": 2, "likelihood": "medium", "reason": "Both UI"}]';
+        return Response.json({
+          choices: [{ message: { role: "assistant", content } }],
+        });
+      },
+    });
+  });
+
+  afterAll(() => {
+    server.stop(true);
+  });
+
+  const makeSettings = (): CheckSettings => ({
+    ...CHECK_DEFAULTS,
+    owner: "",
+    repo: "",
+    pullRequestMode: false,
+    provider: "openai",
+    endpoint: `http://localhost:${server.port}`,
+    aiToken: "",
+    modelName: "",
+    structuredOutput: false,
+    maxRetries: 0,
+    failOnAiError: true,
+    includePullRequests: false,
+    candidateFilters: {
+      includeLabels: [],
+      excludeLabels: [],
+      excludeAuthors: [],
+    },
+    candidateRepos: [],
+    includeDiscussions: false,
+    rerank: false,
+    requireEvidence: false,
+    matchErrorSignatures: true,
+  });
+
+  it("should report the metrics of every variant", async () => {
+    const dataset: EvalDataset = {
+      version: EVAL_DATASET_VERSION,
+      repo: "octo/app",
+      createdAt: "2025-03-01T00:00:00Z",
+      cases: [
+        {
+          issue: makeIssue(3, { title: "Crash at login" }),
+          duplicateOf: [1],
+          candidates: [
+            makeIssue(2, { title: "Dark mode colors" }),
+            makeIssue(1, { title: "Login crash on startup" }),
+          ],
+        },
+      ],
+    };
+
+    const reports = await runEval({
+      octokit: new GitHub(),
+      settings: makeSettings(),
+      dataset,
+      variants: [
+        { name: "good-model", modelName: "good-model" },
+        { name: "bad-model", modelName: "bad-model" },
+      ],
+    });
+
+    expect(models).toEqual(["good-model", "bad-model"]);
+    expect(reports.map(({ metrics }) => metrics)).toMatchObject([
+      { cases: 1, precision: 1, recall: 1 },
+      { cases: 1, precision: 0, recall: 0 },
+    ]);
+    const report = formatEvalReport(dataset, reports);
+    expect(report).toContain(
+      "| good-model | 1/1 | 100% | 100% | 1/1 (100%) | 0/0 (n/a) | 0/0 (n/a) |",
+    );
+    expect(report).toContain(
+      "| bad-model | 1/1 | 0% | 0% | 0/0 (n/a) | 0/1 (0%) | 0/0 (n/a) |",
+    );
+  });
+
+  it("should score the model alone, without signature matches or reranking", async () => {
+    models.length = 0;
+    const error =
+      "TypeError: Cannot read properties of undefined (reading 'token')";
+    const dataset: EvalDataset = {
+      version: EVAL_DATASET_VERSION,
+      repo: "octo/app",
+      createdAt: "2025-03-01T00:00:00Z",
+      cases: [
+        {
+          issue: makeIssue(3, { title: "Crash at login", body: error }),
+          duplicateOf: [1],
+          candidates: [
+            makeIssue(2, { title: "Dark mode colors", body: error }),
+            makeIssue(1, { title: "Login crash on startup" }),
+          ],
+        },
+      ],
+    };
+
+    const reports = await runEval({
+      octokit: new GitHub(),
+      settings: { ...makeSettings(), rerank: true },
+      dataset,
+      variants: [{ name: "good-model", modelName: "good-model" }],
+    });
+
+    expect(models).toEqual(["good-model"]);
+    expect(reports[0]?.metrics).toMatchObject({
+      truePositives: 1,
+      falsePositives: 0,
+    });
+  });
+});
@@ -0,0 +1,183 @@
+import { describe, it, expect } from "bun:test";
+import {
+  createFeedbackStore,
+  recordSuggestion,
+  collectFeedback,
+  getSuppressedPairs,
+  dismissPairs,
+  formatFeedbackStats,
+} from "../feedback";
+import { COMMENT_MARKER, pairKey } from "../utils";
+import { makeIssue, makeOctokit } from "./fixtures";
+
+const NOW = new Date("2025-03-10T00:00:00Z");
+
+const suggest = (issue: number, candidates: number[]) => ({
+  issue,
+  candidates: candidates.map((candidate) => ({ issue: candidate })),
+  suggestedAt: "2025-03-01T00:00:00Z",
+});
+
+describe("recordSuggestion", () => {
+  it("should only count pairs that were not suggested before", () => {
+    const store = createFeedbackStore();
+    recordSuggestion(
+      store,
+      7,
+      [
+        { issue: 1, likelihood: "high" },
+        { issue: 2, likelihood: "low" },
+      ],
+      NOW,
+    );
+    recordSuggestion(
+      store,
+      7,
+      [
+        { issue: 2, likelihood: "medium" },
+        { issue: 9, repo: "octo/other", likelihood: "high" },
+      ],
+      NOW,
+    );
+
+    expect(store.pending).toEqual([
+      {
+        issue: 7,
+        candidates: [{ issue: 2 }, { issue: 9, repo: "octo/other" }],
+        suggestedAt: NOW.toISOString(),
+      },
+    ]);
+    expect(store.months["2025-03"]?.suggested).toBe(3);
+  });
+});
+
+describe("collectFeedback", () => {
+  it("should suppress rejected pairs and count confirmed ones", async () => {
+    const store = createFeedbackStore();
+    store.pending = [
+      suggest(10, [1, 2]),
+      suggest(11, [3]),
+      suggest(12, [4, 5]),
+      suggest(13, [6]),
+      suggest(14, [7]),
+      { ...suggest(15, [8]), suggestedAt: "2025-01-01T00:00:00Z" },
+    ];
+    const { octokit } = makeOctokit({
+      issues: [makeIssue(12, { state: "closed", stateReason: "duplicate" })],
+      comments: {
+        10: [{ id: 100, body: `${COMMENT_MARKER}\nPossible duplicates` }],
+        12: [{ id: 120, body: "Duplicate of #5" }],
+      },
+      events: {
+        11: [
+          { event: "unlabeled", label: "duplicate" },
+          { event: "unlabeled", label: "bug" },
+        ],
+        // Removed by a bot, or before the suggestion
+        13: [
+          { event: "unlabeled", label: "duplicate", type: "Bot" },
+          {
+            event: "unlabeled",
+            label: "duplicate",
+            createdAt: "2025-02-01T00:00:00Z",
+          },
+        ],
+      },
+      reactions: { 100: ["-1"] },
+    });
+
+    const resolved = await collectFeedback({
+      octokit,
+      owner: "octo",
+      repo: "app",
+      store,
+      watchedLabels: ["duplicate"],
+      now: NOW,
+    });
+
+    expect(resolved).toEqual({
+      suggested: 0,
+      confirmed: 1,
+      rejected: 3,
+      expired: 2,
+    });
+    expect(store.pending.map(({ issue }) => issue).sort()).toEqual([13, 14]);
+    expect(
+      store.suppressed.map(({ candidate, reason }) => [candidate, reason]),
+    ).toEqual([
+      ["#1", "reaction"],
+      ["#2", "reaction"],
+      ["#3", "label"],
+    ]);
+    const suppressed = getSuppressedPairs(store);
+    expect(suppressed.has(pairKey(1, { issue: 10 }))).toBe(true);
+    expect(suppressed.has(pairKey(12, { issue: 4 }))).toBe(false);
+  });
+
+  it("should ignore reactions from users without write access", async () => {
+    const store = createFeedbackStore();
+    store.pending = [suggest(10, [1])];
+    const { octokit } = makeOctokit({
+      comments: {
+        10: [{ id: 100, body: `${COMMENT_MARKER}\nPossible duplicates` }],
+      },
+      reactions: { 100: ["-1:reporter", "-1:passer-by"] },
+    });
+
+    await collectFeedback({
+      octokit,
+      owner: "octo",
+      repo: "app",
+      store,
+      watchedLabels: ["duplicate"],
+      now: NOW,
+    });
+
+    expect(store.suppressed).toEqual([]);
+    expect(store.pending).toEqual([suggest(10, [1])]);
+  });
+});
+
+describe("dismissPairs", () => {
+  it("should suppress the pairs and reject the pending ones", () => {
+    const store = createFeedbackStore();
+    store.pending = [suggest(10, [1, 2])];
+
+    dismissPairs(store, 10, [{ issue: 1 }, { issue: 3 }], NOW);
+
+    expect(
+      store.suppressed.map(({ candidate, reason }) => [candidate, reason]),
+    ).toEqual([
+      ["#1", "command"],
+      ["#3", "command"],
+    ]);
+    expect(store.pending).toEqual([suggest(10, [2])]);
+    expect(store.months["2025-03"]?.rejected).toBe(1);
+
+    dismissPairs(store, 10, [{ issue: 2 }], NOW);
+    expect(store.pending).toEqual([]);
+    expect(store.suppressed).toHaveLength(3);
+  });
+});
+
+describe("formatFeedbackStats", () => {
+  it("should report precision over the pairs with feedback", () => {
+    const store = createFeedbackStore();
+    store.months = {
+      "2025-02": { suggested: 4, confirmed: 3, rejected: 1, expired: 0 },
+      "2025-03": { suggested: 2, confirmed: 0, rejected: 0, expired: 2 },
+    };
+
+    expect(formatFeedbackStats(store)).toBe(
+      [
+        "| Month | Suggested | Confirmed | Rejected | No Feedback | Precision |",
+        "|---|---|---|---|---|---|",
+        "| 2025-02 | 4 | 3 | 1 | 0 | 75% |",
+        "| 2025-03 | 2 | 0 | 0 | 2 | n/a |",
+      ].join("\n"),
+    );
+    expect(formatFeedbackStats(createFeedbackStore())).toBe(
+      "No feedback collected yet.",
+    );
+  });
+});
@@ -0,0 +1,218 @@
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import type { Server } from "bun";
+import { GitHub } from "@actions/github/lib/utils";
+import {
+  SIGNATURE_REASON,
+  normalizeErrorText,
+  extractErrorSignature,
+  buildFingerprints,
+  findSignatureMatches,
+} from "../fingerprint";
+import { CHECK_DEFAULTS, runDuplicateCheck, silentSummary } from "../check";
+import { makeIssue } from "./fixtures";
+
+const NODE_TRACE = (dir: string, line: number) =>
+  [
+    "Steps: run the build.",
+    "```",
+    "TypeError: Cannot read properties of undefined (reading 'map')",
+    `    at renderList (${dir}/src/list.js:${line}:15)`,
+    `    at render (${dir}/src/app.js:${line + 30}:3)`,
+    `    at Object.<anonymous> (${dir}/index.js:4:1)`,
+    "```",
+  ].join("\n");
+
+describe("normalizeErrorText", () => {
+  it("should strip directories, line numbers and hex addresses", () => {
+    expect(
+      normalizeErrorText(
+        "at Foo.Bar (C:\\Users\\me\\app\\Foo.cs:line 42) 0x7ffde4a1c2b0",
+      ),
+    ).toBe("at foo.bar (foo.cs:line) <addr>");
+    expect(normalizeErrorText("at load (/home/ci/app/src/x.ts:10:5)")).toBe(
+      "at load (x.ts)",
+    );
+  });
+});
+
+describe("extractErrorSignature", () => {
+  it("should collect messages, exception types, frames and codes", () => {
+    const signature = extractErrorSignature(
+      [
+        "Error [ERR_REQUIRE_ESM]: require() of ES Module /app/node_modules/x/index.js not supported.",
+        "    at Module._load (node:internal/modules/cjs/loader:1023:12)",
+        "    at require (/app/lib/main.js:3:9)",
+        "",
+        "Unrelated text",
+        "    at later (/app/other.js:1:1)",
+      ].join("\n"),
+    );
+
+    expect(signature).toEqual({
+      exceptionTypes: ["Error"],
+      messages: ["error: require() of es module index.js not supported."],
+      frames: ["module._load (node:loader)", "require (main.js)"],
+      codes: ["ERR_REQUIRE_ESM"],
+    });
+  });
+
+  it("should read Python tracebacks and panics", () => {
+    const python = extractErrorSignature(
+      [
+        "Traceback (most recent call last):",
+        '  File "/usr/lib/app/main.py", line 12, in run',
+        "    load()",
+        "ValueError: invalid literal for int() with base 10: 'abc'",
+      ].join("\n"),
+    );
+    expect(python.messages).toEqual([
+      "valueerror: invalid literal for int() with base 10: 'abc'",
+    ]);
+    expect(python.frames).toEqual(['file "main.py", line, in run']);
+
+    const panic = extractErrorSignature(
+      "thread 'main' panicked at src/main.rs:4:37:\ncalled `Option::unwrap()` on a `None` value",
+    );
+    expect(panic.messages).toEqual([
+      "panic: called `option::unwrap()` on a `none` value",
+    ]);
+  });
+
+  it("should ignore short messages", () => {
+    expect(extractErrorSignature("Error: failed").messages).toEqual([]);
+  });
+});
+
+describe("buildFingerprints", () => {
+  it("should need enough frames for a stack fingerprint", () => {
+    const fingerprints = buildFingerprints({
+      exceptionTypes: ["SqlException"],
+      messages: [],
+      frames: ["a (x.cs)", "b (x.cs)"],
+      codes: ["0x80131904"],
+    });
+
+    expect([...fingerprints]).toEqual(["code:sqlexception:0x80131904"]);
+  });
+});
+
+describe("findSignatureMatches", () => {
+  it("should report the same stack as high and the same message as medium", () => {
+    const candidates = [
+      makeIssue(1, {
+        title: "List crashes",
+        body: NODE_TRACE("/home/alice/proj", 10),
+      }),
+      makeIssue(2, {
+        title: "Other crash",
+        body: "TypeError: x is not a function at all",
+      }),
+      makeIssue(3, {
+        title: "Same issue",
+        body: NODE_TRACE("/home/alice/proj", 10),
+      }),
+      {
+        ...makeIssue(4, { title: "Upstream", body: NODE_TRACE("D:/ci", 99) }),
+        repo: "octo/sdk",
+      },
+      makeIssue(5, {
+        title: "Empty list",
+        body: "TypeError: Cannot read properties of undefined (reading 'map')",
+      }),
+    ];
+
+    expect(
+      findSignatureMatches({
+        issueNumber: 3,
+        title: "Crash on the list page",
+        body: NODE_TRACE("/Users/bob/code", 12),
+        candidates,
+      }),
+    ).toEqual([
+      { issue: 1, likelihood: "high", reason: SIGNATURE_REASON },
+      {
+        issue: 4,
+        repo: "octo/sdk",
+        likelihood: "high",
+        reason: SIGNATURE_REASON,
+      },
+      { issue: 5, likelihood: "medium", reason: SIGNATURE_REASON },
+    ]);
+  });
+
+  it("should find nothing without error details", () => {
+    expect(
+      findSignatureMatches({
+        issueNumber: 2,
+        title: "Dark mode",
+        body: "Please add a dark mode.",
+        candidates: [
+          makeIssue(1, { title: "Dark mode", body: "Please add a dark mode." }),
+        ],
+      }),
+    ).toEqual([]);
+  });
+});
+
+describe("runDuplicateCheck with error signatures", () => {
+  // Stub model server failing every request
+  let server: Server;
+
+  beforeAll(() => {
+    server = Bun.serve({
+      port: 0,
+      fetch: () => new Response("Bad request", { status: 400 }),
+    });
+  });
+
+  afterAll(() => {
+    server.stop(true);
+  });
+
+  it("should keep signature matches when inference fails", async () => {
+    const { findings, failed } = await runDuplicateCheck({
+      octokit: new GitHub(),
+      config: {
+        ...CHECK_DEFAULTS,
+        owner: "octo",
+        repo: "app",
+        pullRequestMode: false,
+        provider: "openai",
+        endpoint: `http://localhost:${server.port}`,
+        aiToken: "",
+        modelName: "stub",
+        structuredOutput: false,
+        maxRetries: 0,
+        failOnAiError: true,
+        includePullRequests: false,
+        candidateFilters: {
+          includeLabels: [],
+          excludeLabels: [],
+          excludeAuthors: [],
+        },
+        candidateRepos: [],
+        includeDiscussions: false,
+        rerank: false,
+        requireEvidence: false,
+        matchErrorSignatures: true,
+        maxComments: 0,
+        issueNumber: 5,
+        issueTitle: "Crash on the list page",
+        issueBody: NODE_TRACE("/Users/bob/code", 12),
+      },
+      candidates: [
+        makeIssue(1, {
+          title: "List crashes",
+          body: NODE_TRACE("/home/alice/proj", 10),
+        }),
+        makeIssue(2, { title: "Dark mode", body: "Please add a dark mode." }),
+      ],
+      summary: silentSummary,
+    });
+
+    expect(failed).toBe(true);
+    expect(findings).toEqual([
+      { issue: 1, likelihood: "high", reason: SIGNATURE_REASON },
+    ]);
+  });
+});
@@ -0,0 +1,180 @@
+import type { GitHub } from "@actions/github/lib/utils";
+import type { Issue } from "../types";
+
+/**
+ * Builds an open issue for tests. Issues are created a day apart in the order
+ * of their numbers, like real ones, and last updated on 2025-02-01.
+ */
+export const makeIssue = (
+  number: number,
+  overrides: Partial<Issue> = {},
+): Issue => ({
+  number,
+  title: `Issue ${number}`,
+  body: "",
+  state: "open",
+  kind: "issue",
+  url: `https://github.com/octo/app/issues/${number}`,
+  createdAt: new Date(Date.UTC(2025, 0, number)).toISOString(),
+  updatedAt: "2025-02-01T00:00:00.000Z",
+  ...overrides,
+});
+
+// The shape the REST API returns an issue in
+export const toRestIssue = (issue: Issue) => ({
+  number: issue.number,
+  title: issue.title,
+  body: issue.body,
+  state: issue.state,
+  state_reason: issue.stateReason ?? null,
+  html_url: issue.url,
+  created_at: issue.createdAt,
+  updated_at: issue.updatedAt,
+  user: null,
+  ...(issue.labels ? { labels: issue.labels.map((name) => ({ name })) } : {}),
+});
+
+export interface FakeComment {
+  id: number;
+  body: string;
+  // github-actions[bot] by default
+  login?: string;
+}
+
+export interface FakeEvent {
+  event: string;
+  label?: string;
+  // Actor type, "User" by default
+  type?: string;
+  createdAt?: string;
+}
+
+export interface FakeRepo {
+  // Listed, and fetched by number (built by makeIssue when missing)
+  issues?: Issue[];
+  // Per issue number; plain bodies are comments of the action numbered from 0
+  comments?: Record<number, (string | FakeComment)[]>;
+  // Per issue number, by "maintainer" unless the type says otherwise
+  events?: Record<number, FakeEvent[]>;
+  // Per comment id, "content" by "maintainer" or "content:login"
+  reactions?: Record<number, string[]>;
+  // Listing issues fails like a server error
+  failing?: boolean;
+}
+
+/**
+ * Fakes the octokit calls of src/api.ts against an in-memory repository where
+ * only "maintainer" has write access. Every write is recorded in `calls`, and
+ * the issue list requests in `calls.requests`.
+ */
+export const makeOctokit = ({
+  issues = [],
+  comments = {},
+  events = {},
+  reactions = {},
+  failing = false,
+}: FakeRepo = {}) => {
+  const calls = {
+    requests: [] as Record<string, unknown>[],
+    created: [] as string[],
+    updated: [] as string[],
+    updatedIds: [] as number[],
+    deleted: [] as number[],
+    removed: [] as string[],
+  };
+  const octokit = {
+    paginate: async (
+      method: (params: unknown) => Promise<{ data: unknown[] }>,
+      params: unknown,
+    ) => (await method(params)).data,
+    rest: {
+      issues: {
+        listForRepo: async (params: Record<string, unknown>) => {
+          calls.requests.push(params);
+          if (failing) throw new Error("Server Error");
+          return { data: issues.map(toRestIssue) };
+        },
+        get: async ({ issue_number }: { issue_number: number }) => ({
+          data: toRestIssue(
+            issues.find(({ number }) => number === issue_number) ??
+              makeIssue(issue_number),
+          ),
+        }),
+        listComments: async ({ issue_number }: { issue_number: number }) => ({
+          data: (comments[issue_number] ?? []).map((comment, index) => {
+            const {
+              id,
+              body,
+              login = "github-actions[bot]",
+            }: FakeComment = typeof comment === "string"
+              ? { id: index, body: comment }
+              : comment;
+            return {
+              id,
+              body,
+              user: { login },
+              created_at: "2025-03-01T00:00:00Z",
+            };
+          }),
+        }),
+        listEvents: async ({ issue_number }: { issue_number: number }) => ({
+          data: (events[issue_number] ?? []).map(
+            ({ event, label, type = "User", createdAt }) => ({
+              event,
+              ...(label ? { label: { name: label } } : {}),
+              actor: { login: "maintainer", type },
+              created_at: createdAt ?? "2025-03-05T00:00:00Z",
+            }),
+          ),
+        }),
+        createComment: async ({ body }: { body: string }) => {
+          calls.created.push(body);
+          return { data: { html_url: "" } };
+        },
+        updateComment: async ({
+          comment_id,
+          body,
+        }: {
+          comment_id: number;
+          body: string;
+        }) => {
+          calls.updated.push(body);
+          calls.updatedIds.push(comment_id);
+          return { data: { html_url: "" } };
+        },
+        deleteComment: async ({ comment_id }: { comment_id: number }) => {
+          calls.deleted.push(comment_id);
+          return { data: {} };
+        },
+        addLabels: async () => ({ data: [] }),
+        removeLabel: async ({ name }: { name: string }) => {
+          calls.removed.push(name);
+          return { data: [] };
+        },
+      },
+      reactions: {
+        listForIssueComment: async ({
+          comment_id,
+        }: {
+          comment_id: number;
+        }) => ({
+          data: (reactions[comment_id] ?? []).map((reaction) => {
+            const [content, login = "maintainer"] = reaction.split(":");
+            return { content, user: { login } };
+          }),
+        }),
+      },
+      repos: {
+        getCollaboratorPermissionLevel: async ({
+          username,
+        }: {
+          username: string;
+        }) => {
+          const permission = username === "maintainer" ? "write" : "read";
+          return { data: { permission, role_name: permission } };
+        },
+      },
+    },
+  } as unknown as InstanceType<typeof GitHub>;
+  return { octokit, calls };
+};
@@ -0,0 +1,102 @@
+import { describe, it, expect } from "bun:test";
+import { tokenize, rankCandidates, formatScoreList } from "../lexical";
+import type { Issue } from "../types";
+import { makeIssue } from "./fixtures";
+
+describe("tokenize", () => {
+  it("should lowercase, split on punctuation and drop stop words", () => {
+    expect(tokenize("The Login page is BROKEN, after update!")).toEqual([
+      "login",
+      "page",
+      "broken",
+      "update",
+    ]);
+  });
+
+  it("should drop single character tokens", () => {
+    expect(tokenize("a b c token")).toEqual(["token"]);
+  });
+});
+
+describe("rankCandidates", () => {
+  const candidates: Issue[] = [
+    makeIssue(1, {
+      title: "Dark mode colors",
+      body: "The sidebar ignores the dark theme.",
+    }),
+    makeIssue(2, {
+      title: "Login fails with timeout",
+      body: "Token refresh times out during login.",
+    }),
+    makeIssue(3, { title: "Docs typo", body: "Fix a typo in the README." }),
+  ];
+
+  it("should rank the most similar candidate first", () => {
+    const { kept, dropped } = rankCandidates({
+      title: "Login timeout",
+      body: "Login fails because the token refresh has a timeout.",
+      candidates,
+      maxCandidates: 0,
+      minScore: 0,
+    });
+
+    expect(kept.length).toBe(3);
+    expect(dropped.length).toBe(0);
+    expect(kept[0]!.issue.number).toBe(2);
+    expect(kept[0]!.score).toBeGreaterThan(kept[1]!.score);
+  });
+
+  it("should keep at most maxCandidates and drop the rest", () => {
+    const { kept, dropped } = rankCandidates({
+      title: "Login timeout",
+      body: "Login fails because the token refresh has a timeout.",
+      candidates,
+      maxCandidates: 1,
+      minScore: 0,
+    });
+
+    expect(kept.map(({ issue }) => issue.number)).toEqual([2]);
+    expect(dropped.length).toBe(2);
+  });
+
+  it("should drop candidates scoring below minScore", () => {
+    const { kept, dropped } = rankCandidates({
+      title: "Login timeout",
+      body: "Login fails because the token refresh has a timeout.",
+      candidates,
+      maxCandidates: 0,
+      minScore: 0.1,
+    });
+
+    expect(kept.map(({ issue }) => issue.number)).toEqual([2]);
+    expect(dropped.every(({ score }) => score < 0.1)).toBe(true);
+  });
+
+  it("should score candidates with no shared terms as 0", () => {
+    const { kept } = rankCandidates({
+      title: "",
+      body: "",
+      candidates,
+      maxCandidates: 0,
+      minScore: 0,
+    });
+
+    expect(kept.every(({ score }) => score === 0)).toBe(true);
+  });
+});
+
+describe("formatScoreList", () => {
+  it("should list issues with scores rounded to three decimals", () => {
+    const result = formatScoreList([
+      {
+        issue: makeIssue(7, { title: "Crash on start" }),
+        score: 0.51234,
+      },
+    ]);
+    expect(result).toBe("- #7 Crash on start (0.512)\n");
+  });
+
+  it("should return 'None' for an empty list", () => {
+    expect(formatScoreList([])).toBe("None\n");
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from "bun:test";
+import { createWorkerPool } from "../pool";
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("createWorkerPool", () => {
+  it("should return results in input order", async () => {
+    const pool = createWorkerPool(3);
+    const results = await pool.map([30, 10, 20, 0], async (ms, index) => {
+      await delay(ms);
+      return index;
+    });
+
+    expect(results).toEqual([0, 1, 2, 3]);
+  });
+
+  it("should never run more tasks than the limit at once", async () => {
+    const pool = createWorkerPool(2);
+    let active = 0;
+    let maxActive = 0;
+
+    await pool.map([1, 2, 3, 4, 5], async () => {
+      active += 1;
+      maxActive = Math.max(maxActive, active);
+      await delay(5);
+      active -= 1;
+    });
+
+    expect(maxActive).toBe(2);
+  });
+
+  it("should lower the limit when throttled", async () => {
+    const pool = createWorkerPool(4);
+    let active = 0;
+    const activeAfterThrottle: number[] = [];
+
+    await pool.map([0, 1, 2, 3, 4, 5, 6, 7], async (item) => {
+      active += 1;
+      if (item >= 4) activeAfterThrottle.push(active);
+      if (item === 0) pool.throttle();
+      await delay(5);
+      active -= 1;
+    });
+
+    expect(pool.limit).toBe(2);
+    expect(Math.max(...activeAfterThrottle)).toBeLessThanOrEqual(2);
+  });
+
+  it("should not throttle below 1", () => {
+    const pool = createWorkerPool(2);
+    expect(pool.throttle()).toBe(1);
+    expect(pool.throttle()).toBe(1);
+  });
+
+  it("should reject when a task throws", async () => {
+    const pool = createWorkerPool(2);
+    await expect(
+      pool.map([1, 2], async (item) => {
+        if (item === 2) throw new Error("boom");
+        return item;
+      }),
+    ).rejects.toThrow("boom");
+  });
+});
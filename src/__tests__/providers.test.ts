@@ -0,0 +1,167 @@
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import type { Server } from "bun";
+import { AiInferenceError, getChatCompletion } from "../providers";
+import type { ChatCompletionRequest } from "../types";
+
+interface RecordedRequest {
+  path: string;
+  headers: Headers;
+  body: Record<string, unknown>;
+}
+
+// Stub server answering every path with the reply queued for it
+let server: Server;
+let endpoint: string;
+let received: RecordedRequest[] = [];
+const replies = new Map<string, () => Response>();
+
+beforeAll(() => {
+  server = Bun.serve({
+    port: 0,
+    fetch: async (request) => {
+      const { pathname } = new URL(request.url);
+      received.push({
+        path: pathname,
+        headers: request.headers,
+        body: (await request.json()) as Record<string, unknown>,
+      });
+      return replies.get(pathname)?.() ?? new Response("", { status: 404 });
+    },
+  });
+  endpoint = `http://localhost:${server.port}`;
+});
+
+afterAll(() => {
+  server.stop(true);
+});
+
+const makeRequest = (
+  overrides: Partial<ChatCompletionRequest> = {},
+): ChatCompletionRequest => ({
+  endpoint,
+  modelName: "test-model",
+  maxTokens: 100,
+  token: "secret",
+  systemPrompt: "system prompt",
+  messages: [{ role: "user", content: "user content" }],
+  ...overrides,
+});
+
+const reply = (path: string, body: unknown, init?: ResponseInit) => {
+  received = [];
+  replies.set(path, () => Response.json(body, init));
+};
+
+describe("getChatCompletion", () => {
+  it("should call Azure AI Inference chat completions", async () => {
+    reply("/chat/completions", {
+      choices: [{ message: { role: "assistant", content: "[]" } }],
+    });
+
+    const result = await getChatCompletion("azure")(makeRequest());
+
+    expect(result).toBe("[]");
+    expect(received[0]!.body.messages).toEqual([
+      { role: "system", content: "system prompt" },
+      { role: "user", content: "user content" },
+    ]);
+  });
+
+  it("should call OpenAI-compatible chat completions", async () => {
+    reply("/v1/chat/completions", {
+      choices: [{ message: { role: "assistant", content: "[]" } }],
+    });
+
+    const result = await getChatCompletion("openai")(
+      makeRequest({ endpoint: `${endpoint}/v1/`, structuredOutput: true }),
+    );
+
+    expect(result).toBe("[]");
+    const [request] = received;
+    expect(request!.headers.get("authorization")).toBe("Bearer secret");
+    expect(request!.body).toMatchObject({
+      model: "test-model",
+      max_tokens: 100,
+      messages: [
+        { role: "system", content: "system prompt" },
+        { role: "user", content: "user content" },
+      ],
+      response_format: { type: "json_schema" },
+    });
+  });
+
+  it("should call the Anthropic messages API", async () => {
+    reply("/v1/messages", {
+      content: [
+        { type: "text", text: '[{"issue": 1, ' },
+        { type: "text", text: '"likelihood": "high"}]' },
+      ],
+    });
+
+    const result = await getChatCompletion("anthropic")(makeRequest());
+
+    expect(result).toBe('[{"issue": 1, "likelihood": "high"}]');
+    const [request] = received;
+    expect(request!.headers.get("x-api-key")).toBe("secret");
+    expect(request!.headers.get("anthropic-version")).toBeTruthy();
+    expect(request!.body).toEqual({
+      model: "test-model",
+      max_tokens: 100,
+      system: "system prompt",
+      messages: [{ role: "user", content: "user content" }],
+    });
+  });
+
+  it("should call the Ollama chat API", async () => {
+    reply("/api/chat", { message: { role: "assistant", content: "[]" } });
+
+    const result = await getChatCompletion("ollama")(
+      makeRequest({ token: "", structuredOutput: true }),
+    );
+
+    expect(result).toBe("[]");
+    const [request] = received;
+    expect(request!.headers.get("authorization")).toBeNull();
+    expect(request!.body).toMatchObject({
+      model: "test-model",
+      stream: false,
+      options: { num_predict: 100 },
+      format: { type: "object" },
+    });
+  });
+
+  it("should classify error responses", async () => {
+    reply(
+      "/v1/chat/completions",
+      { error: { message: "Too many requests" } },
+      { status: 429, headers: { "retry-after": "2" } },
+    );
+
+    const error = await getChatCompletion("openai")(
+      makeRequest({ endpoint: `${endpoint}/v1` }),
+    ).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(AiInferenceError);
+    expect(error).toMatchObject({
+      message: "Too many requests",
+      kind: "retryable",
+      status: 429,
+      retryAfterMs: 2000,
+    });
+  });
+
+  it("should treat client errors as fatal", async () => {
+    reply(
+      "/v1/messages",
+      { error: { type: "authentication_error", message: "invalid x-api-key" } },
+      { status: 401 },
+    );
+
+    await expect(
+      getChatCompletion("anthropic")(makeRequest()),
+    ).rejects.toMatchObject({
+      message: "authentication_error: invalid x-api-key",
+      kind: "fatal",
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect } from "bun:test";
+import {
+  sampleIssues,
+  clusterMatches,
+  buildClusterReport,
+  buildClusterCsv,
+  buildTrackingIssueBody,
+  SWEEP_REPORT_MARKER,
+} from "../sweep";
+import type { SweepMatch } from "../types";
+import { makeIssue } from "./fixtures";
+
+describe("sampleIssues", () => {
+  const issues = [1, 2, 3, 4, 5].map((n) => makeIssue(n));
+
+  it("should return all issues when the size is 0 or too large", () => {
+    expect(sampleIssues(issues, 0)).toBe(issues);
+    expect(sampleIssues(issues, 10)).toBe(issues);
+  });
+
+  it("should pick distinct issues in their original order", () => {
+    const sample = sampleIssues(issues, 3, () => 0.5);
+    const numbers = sample.map(({ number }) => number);
+
+    expect(numbers).toHaveLength(3);
+    expect(new Set(numbers).size).toBe(3);
+    expect(numbers).toEqual([...numbers].sort((a, b) => a - b));
+  });
+});
+
+describe("clusterMatches", () => {
+  it("should merge connected matches into clusters", () => {
+    const matches: SweepMatch[] = [
+      { issue: 9, duplicate: 3, likelihood: "medium" },
+      { issue: 3, duplicate: 1, likelihood: "low" },
+      { issue: 20, duplicate: 12, likelihood: "high" },
+    ];
+
+    const clusters = clusterMatches(matches);
+
+    expect(
+      clusters.map(({ id, issues, likelihood }) => ({
+        id,
+        issues,
+        likelihood,
+      })),
+    ).toEqual([
+      { id: 1, issues: [12, 20], likelihood: "high" },
+      { id: 2, issues: [1, 3, 9], likelihood: "medium" },
+    ]);
+    expect(clusters[1]!.matches).toHaveLength(2);
+  });
+
+  it("should return no clusters for no matches", () => {
+    expect(clusterMatches([])).toEqual([]);
+  });
+});
+
+describe("cluster reports", () => {
+  const issues = [makeIssue(1, { title: "Crash, on save" }), makeIssue(2)];
+  const clusters = clusterMatches([
+    { issue: 2, duplicate: 1, likelihood: "high", reason: "Same crash" },
+  ]);
+
+  it("should list clustered issues and their matches in markdown", () => {
+    const report = buildClusterReport(clusters, issues);
+
+    expect(report).toContain("### Cluster 1 (2 issues, high)");
+    expect(report).toContain("- #1 Crash, on save\n- #2 Issue 2");
+    expect(report).toContain("  - #2 ↔ #1: high (Same crash)");
+  });
+
+  it("should write one escaped CSV row per clustered issue", () => {
+    expect(buildClusterCsv(clusters, issues)).toBe(
+      [
+        "cluster,issue,title,state,url,cluster_likelihood",
+        '1,1,"Crash, on save",open,https://github.com/octo/app/issues/1,high',
+        "1,2,Issue 2,open,https://github.com/octo/app/issues/2,high",
+      ].join("\n"),
+    );
+  });
+
+  it("should mark the tracking issue body", () => {
+    const body = buildTrackingIssueBody(clusters, issues, 2);
+
+    expect(body.startsWith(SWEEP_REPORT_MARKER)).toBe(true);
+    expect(body).toContain(
+      "Checked 2 issue(s) and found 1 duplicate cluster(s).",
+    );
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect } from "bun:test";
+import {
+  estimateTokens,
+  truncateIssueBody,
+  estimateCandidateTokens,
+  batchByTokens,
+} from "../tokens";
+import { makeIssue } from "./fixtures";
+
+describe("estimateTokens", () => {
+  it("should estimate four characters per token, rounding up", () => {
+    expect(estimateTokens("")).toBe(0);
+    expect(estimateTokens("abcd")).toBe(1);
+    expect(estimateTokens("abcde")).toBe(2);
+  });
+});
+
+describe("truncateIssueBody", () => {
+  it("should return short bodies unchanged", () => {
+    expect(truncateIssueBody("Short body", 100)).toBe("Short body");
+  });
+
+  it("should keep the start, headings and error lines", () => {
+    const logs = Array.from({ length: 200 }, (_, i) => `log line ${i}`);
+    const body = [
+      "The app crashes when saving.",
+      "Steps below.",
+      ...logs.slice(0, 100),
+      "## Expected behavior",
+      ...logs.slice(100, 150),
+      "TypeError: Cannot read properties of undefined",
+      ...logs.slice(150),
+    ].join("\n");
+
+    const result = truncateIssueBody(body, 60);
+
+    expect(estimateTokens(result)).toBeLessThanOrEqual(70);
+    expect(
+      result.startsWith("The app crashes when saving.\nSteps below."),
+    ).toBe(true);
+    expect(result).toContain("## Expected behavior");
+    expect(result).toContain("TypeError: Cannot read properties of undefined");
+    expect(result).toContain("[...]");
+    expect(result).not.toContain("log line 199");
+  });
+
+  it("should slice a single oversized line", () => {
+    const result = truncateIssueBody("x".repeat(1000), 10);
+    expect(result).toBe(`${"x".repeat(20)}\n[...]`);
+  });
+});
+
+describe("batchByTokens", () => {
+  it("should split batches when the token budget is exceeded", () => {
+    const issues = [
+      makeIssue(1, { body: "a".repeat(400) }),
+      makeIssue(2, { body: "b".repeat(400) }),
+      makeIssue(3, { body: "c".repeat(400) }),
+    ];
+    const perIssue = estimateCandidateTokens(issues[0]!);
+
+    const batches = batchByTokens(issues, perIssue * 2, 100);
+
+    expect(batches.map((batch) => batch.map(({ number }) => number))).toEqual([
+      [1, 2],
+      [3],
+    ]);
+  });
+
+  it("should respect the maximum batch size", () => {
+    const issues = [1, 2, 3].map((n) => makeIssue(n));
+    expect(batchByTokens(issues, 10_000, 2).map((b) => b.length)).toEqual([
+      2, 1,
+    ]);
+  });
+
+  it("should give an oversized candidate a batch of its own", () => {
+    const issues = [
+      makeIssue(1, { body: "short" }),
+      makeIssue(2, { body: "x".repeat(4000) }),
+    ];
+    expect(batchByTokens(issues, 100, 10).map((b) => b.length)).toEqual([1, 1]);
+  });
+
+  it("should return no batches for no issues", () => {
+    expect(batchByTokens([], 100, 10)).toEqual([]);
+  });
+});
@@ -5,11 +5,47 @@ import {
   systemPromptMsg,
   verifyJsonResponse,
   verifyIssueStateInput,
+  verifyCommentModeInput,
   processDateInput,
   chunk,
   buildCommentBody,
+  COMMENT_MARKER,
+  buildDuplicateMatches,
+  getTopDuplicate,
+  verifyLikelihoodInput,
+  parseLikelihoodLabels,
+  filterByLikelihood,
+  getLikelihoodLabels,
+  verifyModeInput,
+  verifyProviderInput,
+  selectAutoCloseTarget,
+  buildCloseNoticeBody,
+  parseCloseNotice,
+  extractJsonArray,
+  parseRetryAfterMs,
+  classifyAiError,
+  getRetryDelayMs,
+  consolidateOutputs,
+  applyRanking,
+  buildRerankUserContent,
+  isVerbatimQuote,
+  validateOutputs,
+  selectComments,
+  describeResolution,
+  parseCandidateFilters,
+  matchesCandidateFilters,
+  buildSearchQuery,
+  parseCandidateRepos,
+  withPromptAdditions,
+  parseDuplicateOf,
+  pairKey,
+  verifyPermissionInput,
+  hasPermission,
+  buildFindingsMarker,
+  parseFindingsMarker,
 } from "../utils";
-import type { Issue, ParsedOutput } from "../types";
+import type { Issue, IssueComment, ParsedOutput } from "../types";
+import { makeIssue } from "./fixtures";
 
 describe("buildCurrentIssueSummary", () => {
   it("should build a summary with issue number, title, and body", () => {
@@ -44,6 +80,17 @@ describe("buildCurrentIssueSummary", () => {
 
     expect(result).toBe(expectedSummary);
   });
+
+  it("should append changed files for pull requests", () => {
+    const result = buildCurrentIssueSummary(10, "Fix login", "Fixes auth", [
+      "src/auth.ts",
+      "src/login.ts",
+    ]);
+
+    expect(result).toBe(
+      `Current Issue (#10)\nTitle: Fix login\nBody:\nFixes auth\nChanged Files:\nsrc/auth.ts\nsrc/login.ts`,
+    );
+  });
 });
 
 describe("buildBatchUserContent", () => {
@@ -54,6 +101,8 @@ describe("buildBatchUserContent", () => {
       {
         number: 101,
         state: "open",
+        kind: "issue",
+        url: "",
         title: "Batch Issue 1",
         body: "Body of batch issue 1",
         createdAt: "",
@@ -62,6 +111,8 @@ describe("buildBatchUserContent", () => {
       {
         number: 102,
         state: "closed",
+        kind: "issue",
+        url: "",
         title: "Batch Issue 2",
         body: "Body of batch issue 2",
         createdAt: "",
@@ -85,6 +136,58 @@ Body of batch issue 2`;
     expect(result).toBe(expectedContent);
   });
 
+  it("should include changed files for pull request candidates", () => {
+    const batch: Issue[] = [
+      {
+        number: 201,
+        state: "open",
+        kind: "pull_request",
+        url: "",
+        title: "Refactor auth",
+        body: "Moves auth helpers",
+        createdAt: "",
+        updatedAt: "",
+        files: ["src/auth.ts"],
+      },
+    ];
+
+    const result = buildBatchUserContent("Current Issue Summary", 1, batch);
+
+    expect(result).toEndWith(
+      `#201 Refactor auth\nMoves auth helpers\nChanged Files:\nsrc/auth.ts`,
+    );
+  });
+
+  it("should include the comments of candidates", () => {
+    const batch: Issue[] = [
+      {
+        number: 301,
+        state: "closed",
+        kind: "issue",
+        url: "",
+        title: "Crash on save",
+        body: "App crashes",
+        createdAt: "",
+        updatedAt: "",
+        comments: [
+          {
+            id: 1,
+            body: "Caused by the autosave race, fixed in v2",
+            author: "octocat",
+            authorAssociation: "MEMBER",
+            createdAt: "",
+          },
+        ],
+      },
+    ];
+
+    const result = buildBatchUserContent("Current Issue Summary", 1, batch);
+
+    expect(result).toEndWith(
+      `#301 Crash on save\nApp crashes\nComments:\n@octocat (MEMBER): Caused by the autosave race, fixed in v2`,
+    );
+  });
+
   it("should throw an error for empty batch", () => {
     const currentIssueSummary = "Current Issue Summary";
     const batchId = 2;
@@ -96,6 +199,33 @@ Body of batch issue 2`;
   });
 });
 
+describe("buildRerankUserContent", () => {
+  it("should list the shortlisted candidates after the current issue", () => {
+    const shortlist: Issue[] = [
+      {
+        number: 4,
+        state: "open",
+        kind: "issue",
+        url: "",
+        title: "Crash on save",
+        body: "Saving crashes",
+        createdAt: "",
+        updatedAt: "",
+      },
+    ];
+
+    expect(buildRerankUserContent("Current Issue Summary", shortlist)).toBe(
+      "Current Issue Summary\n\nShortlisted Candidates:\n#4 Crash on save\nSaving crashes",
+    );
+  });
+
+  it("should throw an error for an empty shortlist", () => {
+    expect(() => buildRerankUserContent("Current Issue Summary", [])).toThrow(
+      "Shortlist cannot be empty",
+    );
+  });
+});
+
 describe("verifyJsonResponse", () => {
   it("should return true for valid ParsedOutput array", () => {
     const validData = [
@@ -136,12 +266,165 @@ describe("verifyJsonResponse", () => {
     expect(verifyJsonResponse(invalidData)).toBe(false);
   });
 
+  it("should return false for a non-string 'likelihood'", () => {
+    expect(verifyJsonResponse([{ issue: 1, likelihood: 3 }])).toBe(false);
+    expect(verifyJsonResponse([{ issue: 1, likelihood: null }])).toBe(false);
+  });
+
   it("should return true for empty array", () => {
     const validData: ParsedOutput[] = [];
     expect(verifyJsonResponse(validData)).toBe(true);
   });
 });
 
+describe("extractJsonArray", () => {
+  const expected = [{ issue: 1, likelihood: "high", reason: "Same bug" }];
+
+  it("should parse a raw JSON array", () => {
+    expect(extractJsonArray(JSON.stringify(expected))).toEqual(expected);
+  });
+
+  it("should strip markdown code fences", () => {
+    const text = "```json\n" + JSON.stringify(expected) + "\n```";
+    expect(extractJsonArray(text)).toEqual(expected);
+  });
+
+  it("should pull the first JSON array out of surrounding prose", () => {
+    const text = `Here are the duplicates [see below]:\n${JSON.stringify(expected)}\nLet me know if you need more.`;
+    expect(extractJsonArray(text)).toEqual(expected);
+  });
+
+  it("should handle brackets inside strings", () => {
+    const withBrackets = [{ issue: 2, likelihood: "low", reason: "a [b] c]" }];
+    const text = `Result: ${JSON.stringify(withBrackets)}`;
+    expect(extractJsonArray(text)).toEqual(withBrackets);
+  });
+
+  it("should unwrap schema-constrained object output", () => {
+    const text = JSON.stringify({ duplicates: expected });
+    expect(extractJsonArray(text)).toEqual(expected);
+  });
+
+  it("should return an empty array for '[]'", () => {
+    expect(extractJsonArray("[]")).toEqual([]);
+  });
+
+  it("should return undefined when no JSON array is present", () => {
+    expect(extractJsonArray("No duplicates found.")).toBeUndefined();
+    expect(extractJsonArray('[{"issue": 1,')).toBeUndefined();
+  });
+});
+
+describe("isVerbatimQuote", () => {
+  const text = "The login page crashes\n  when the   token expires.";
+
+  it("should match quotes ignoring case and whitespace", () => {
+    expect(isVerbatimQuote("crashes when the token", text)).toBe(true);
+    expect(isVerbatimQuote("LOGIN PAGE CRASHES", text)).toBe(true);
+  });
+
+  it("should reject quotes that are not in the text", () => {
+    expect(isVerbatimQuote("crashes when logging out", text)).toBe(false);
+  });
+
+  it("should reject very short or non-string quotes", () => {
+    expect(isVerbatimQuote("login", text)).toBe(false);
+    expect(isVerbatimQuote(undefined, text)).toBe(false);
+    expect(isVerbatimQuote(42, text)).toBe(false);
+  });
+});
+
+describe("validateOutputs", () => {
+  const batch: Issue[] = [
+    {
+      number: 5,
+      state: "open",
+      kind: "issue",
+      url: "",
+      title: "Crash on token expiry",
+      body: "The app crashes when the token expires during login.",
+      createdAt: "",
+      updatedAt: "",
+    },
+  ];
+  const currentText = "Login crashes after my session token expires.";
+
+  it("should accept entries with verified evidence", () => {
+    const output: ParsedOutput = {
+      issue: 5,
+      likelihood: "high",
+      evidence: {
+        current: "session token expires",
+        candidate: "crashes when the token expires",
+      },
+    };
+    expect(validateOutputs([output], batch, currentText, true)).toEqual({
+      accepted: [output],
+      rejected: [],
+    });
+  });
+
+  it("should reject issues that were not in the batch", () => {
+    const output: ParsedOutput = { issue: 99, likelihood: "high" };
+    expect(validateOutputs([output], batch, currentText, false)).toEqual({
+      accepted: [],
+      rejected: [{ output, reason: "issue not in batch" }],
+    });
+  });
+
+  it("should reject entries with invented evidence when evidence is required", () => {
+    const output: ParsedOutput = {
+      issue: 5,
+      likelihood: "high",
+      evidence: {
+        current: "session token expires",
+        candidate: "crashes when the database restarts",
+      },
+    };
+    expect(
+      validateOutputs([output], batch, currentText, true).rejected,
+    ).toEqual([{ output, reason: "evidence not verified" }]);
+  });
+
+  it("should keep entries without their evidence when evidence is optional", () => {
+    const output: ParsedOutput = { issue: 5, likelihood: "medium" };
+    expect(validateOutputs([output], batch, currentText, false)).toEqual({
+      accepted: [{ issue: 5, likelihood: "medium" }],
+      rejected: [],
+    });
+  });
+
+  it("should tell apart candidates of other repositories", () => {
+    const crossRepoBatch: Issue[] = [
+      ...batch,
+      { ...batch[0]!, repo: "acme/sdk" },
+      { ...batch[0]!, number: 8, repo: "acme/docs" },
+    ];
+
+    const { accepted, rejected } = validateOutputs(
+      [
+        { issue: 5, repo: "acme/sdk", likelihood: "high" },
+        { issue: 5, repo: null, likelihood: "low" },
+        // Unique number, the repository is taken from the candidate
+        { issue: 8, likelihood: "medium" },
+        { issue: 5, repo: "acme/cli", likelihood: "low" },
+      ],
+      crossRepoBatch,
+      currentText,
+      false,
+    );
+
+    expect(accepted).toEqual([
+      { issue: 5, repo: "acme/sdk", likelihood: "high" },
+      { issue: 5, likelihood: "low" },
+      { issue: 8, repo: "acme/docs", likelihood: "medium" },
+    ]);
+    expect(rejected.map(({ reason }) => reason)).toEqual([
+      "issue not in batch",
+    ]);
+  });
+});
+
 describe("verifyIssueStateInput", () => {
   it("should return the same valid issue state", () => {
     expect(verifyIssueStateInput("all")).toBe("all");
@@ -162,6 +445,63 @@ describe("verifyIssueStateInput", () => {
   });
 });
 
+describe("verifyCommentModeInput", () => {
+  it("should return the same valid comment mode", () => {
+    expect(verifyCommentModeInput("create")).toBe("create");
+    expect(verifyCommentModeInput("upsert")).toBe("upsert");
+    expect(verifyCommentModeInput("none")).toBe("none");
+  });
+
+  it("should throw an error for invalid comment mode", () => {
+    expect(() => verifyCommentModeInput("update")).toThrow(
+      "Invalid comment mode: update. Valid modes are: create, upsert, none",
+    );
+  });
+});
+
+describe("verifyModeInput", () => {
+  it("should return the same valid mode", () => {
+    expect(verifyModeInput("check")).toBe("check");
+    expect(verifyModeInput("close-pending")).toBe("close-pending");
+    expect(verifyModeInput("sweep")).toBe("sweep");
+  });
+
+  it("should throw an error for invalid mode", () => {
+    expect(() => verifyModeInput("close")).toThrow(
+      "Invalid mode: close. Valid modes are: check, close-pending, sweep",
+    );
+  });
+});
+
+describe("verifyProviderInput", () => {
+  it("should return the same valid provider", () => {
+    expect(verifyProviderInput("azure")).toBe("azure");
+    expect(verifyProviderInput("ollama")).toBe("ollama");
+  });
+
+  it("should throw an error for invalid provider", () => {
+    expect(() => verifyProviderInput("gemini")).toThrow(
+      "Invalid provider: gemini. Valid providers are: azure, openai, anthropic, ollama",
+    );
+  });
+});
+
+describe("verifyPermissionInput & hasPermission", () => {
+  it("should rank the repository roles", () => {
+    expect(verifyPermissionInput("triage")).toBe("triage");
+    expect(hasPermission("maintain", "write")).toBe(true);
+    expect(hasPermission("write", "write")).toBe(true);
+    expect(hasPermission("triage", "write")).toBe(false);
+    expect(hasPermission(undefined, "read")).toBe(false);
+  });
+
+  it("should throw an error for invalid permission", () => {
+    expect(() => verifyPermissionInput("owner")).toThrow(
+      "Invalid permission: owner. Valid permissions are: read, triage, write, maintain, admin",
+    );
+  });
+});
+
 describe("processDateInput", () => {
   it("should return ISO string for valid date input", () => {
     const dateStr = "2023-10-01T12:00:00Z";
@@ -184,6 +524,131 @@ describe("processDateInput", () => {
   });
 });
 
+describe("parseCandidateFilters", () => {
+  it("should split the lists and drop empty inputs", () => {
+    expect(
+      parseCandidateFilters({
+        excludeLabels: "wontfix, spam,",
+        excludeAuthors: "dependabot[bot]",
+        milestone: " v2 ",
+        createdAfter: "2025-01-01",
+        searchQuery: "",
+      }),
+    ).toEqual({
+      includeLabels: [],
+      excludeLabels: ["wontfix", "spam"],
+      excludeAuthors: ["dependabot[bot]"],
+      milestone: "v2",
+      createdAfter: "2025-01-01T00:00:00.000Z",
+    });
+  });
+
+  it("should reject an invalid creation date", () => {
+    expect(() => parseCandidateFilters({ createdAfter: "soon" })).toThrow(
+      "Invalid date format: soon",
+    );
+  });
+});
+
+describe("matchesCandidateFilters", () => {
+  const issue: Issue = {
+    number: 1,
+    state: "open",
+    kind: "issue",
+    url: "",
+    title: "Crash",
+    body: "",
+    createdAt: "2025-03-01T00:00:00Z",
+    updatedAt: "2025-03-01T00:00:00Z",
+    author: "octocat",
+    labels: ["Bug", "ui"],
+    milestone: "v2",
+  };
+  const noFilters = parseCandidateFilters({});
+
+  it("should match labels and authors case-insensitively", () => {
+    expect(matchesCandidateFilters(issue, noFilters)).toBe(true);
+    expect(
+      matchesCandidateFilters(issue, {
+        ...noFilters,
+        includeLabels: ["bug", "crash"],
+      }),
+    ).toBe(true);
+    expect(
+      matchesCandidateFilters(issue, { ...noFilters, includeLabels: ["docs"] }),
+    ).toBe(false);
+    expect(
+      matchesCandidateFilters(issue, { ...noFilters, excludeLabels: ["UI"] }),
+    ).toBe(false);
+    expect(
+      matchesCandidateFilters(issue, {
+        ...noFilters,
+        excludeAuthors: ["OctoCat"],
+      }),
+    ).toBe(false);
+  });
+
+  it("should filter by milestone and creation date", () => {
+    const withMilestone = (milestone: string) =>
+      matchesCandidateFilters(issue, { ...noFilters, milestone });
+
+    expect(withMilestone("v2")).toBe(true);
+    expect(withMilestone("v3")).toBe(false);
+    expect(withMilestone("*")).toBe(true);
+    expect(withMilestone("none")).toBe(false);
+    expect(
+      matchesCandidateFilters(
+        { ...issue, milestone: undefined },
+        { ...noFilters, milestone: "none" },
+      ),
+    ).toBe(true);
+    expect(
+      matchesCandidateFilters(issue, {
+        ...noFilters,
+        createdAfter: "2025-04-01T00:00:00Z",
+      }),
+    ).toBe(false);
+  });
+});
+
+describe("buildSearchQuery", () => {
+  it("should scope the query to the repository, state and kind", () => {
+    expect(
+      buildSearchQuery({
+        owner: "octo",
+        repo: "app",
+        searchQuery: "label:bug in:title crash",
+        issueStateFilter: "open",
+        includePullRequests: false,
+      }),
+    ).toBe("repo:octo/app is:issue state:open label:bug in:title crash");
+    expect(
+      buildSearchQuery({
+        owner: "octo",
+        repo: "app",
+        searchQuery: "crash",
+        issueStateFilter: "all",
+        includePullRequests: true,
+      }),
+    ).toBe("repo:octo/app crash");
+  });
+});
+
+describe("parseCandidateRepos", () => {
+  it("should split repositories and organizations", () => {
+    expect(
+      parseCandidateRepos("acme/sdk, org:acme\nacme/docs,acme/sdk"),
+    ).toEqual(["acme/sdk", "org:acme", "acme/docs"]);
+    expect(parseCandidateRepos("")).toEqual([]);
+  });
+
+  it("should throw for entries without an owner", () => {
+    expect(() => parseCandidateRepos("sdk")).toThrow(
+      "Invalid candidate repository: sdk. Expected owner/repo or org:<organization>",
+    );
+  });
+});
+
 describe("chunk", () => {
   it("should chunk an array into smaller arrays of specified size", () => {
     const arr = [1, 2, 3, 4, 5, 6, 7];
@@ -203,7 +668,78 @@ describe("chunk", () => {
   });
 });
 
+describe("withPromptAdditions", () => {
+  it("should append the additions and ignore blank ones", () => {
+    expect(withPromptAdditions("Prompt", "  Ignore bots.\n")).toBe(
+      "Prompt\nAdditional instructions:\nIgnore bots.",
+    );
+    expect(withPromptAdditions("Prompt", "  ")).toBe("Prompt");
+    expect(withPromptAdditions("Prompt")).toBe("Prompt");
+  });
+});
+
 describe("buildCommentBody", () => {
+  it("should render the comment template", () => {
+    const issues: Issue[] = [
+      {
+        number: 7,
+        state: "open",
+        kind: "issue",
+        url: "https://github.com/octo/app/issues/7",
+        title: "Login fails",
+        body: "",
+        createdAt: "",
+        updatedAt: "",
+      },
+    ];
+
+    const result = buildCommentBody(
+      [{ issue: 7, likelihood: "high", reason: "Same error" }],
+      issues,
+      10,
+      {
+        header: "### Possible duplicates",
+        item: "- [{{ref}}]({{url}}) {{title}} ({{likelihood}}): {{reason}}",
+        footer: "See CONTRIBUTING.md.",
+      },
+    );
+
+    expect(result).toBe(
+      [
+        COMMENT_MARKER,
+        "### Possible duplicates",
+        "",
+        "- [#7](https://github.com/octo/app/issues/7) Login fails (high): Same error",
+        "",
+        "See CONTRIBUTING.md.",
+      ].join("\n"),
+    );
+  });
+
+  it("should link matches of other repositories with owner/repo#N", () => {
+    const issues: Issue[] = [
+      {
+        number: 12,
+        repo: "acme/sdk",
+        state: "open",
+        kind: "issue",
+        url: "",
+        title: "SDK crash",
+        body: "",
+        createdAt: "",
+        updatedAt: "",
+      },
+    ];
+
+    const result = buildCommentBody(
+      [{ issue: 12, repo: "acme/sdk", likelihood: "high" }],
+      issues,
+    );
+
+    expect(result).toContain("**Issue** acme/sdk#12: **high**");
+    expect(result).toContain("**Title:** SDK crash");
+  });
+
   it("should build a comment body with outputs and issues to compare", () => {
     const outputs: ParsedOutput[] = [
       { issue: 1, likelihood: "high", reason: "Similar issue" },
@@ -213,6 +749,8 @@ describe("buildCommentBody", () => {
       {
         number: 1,
         state: "open",
+        kind: "issue",
+        url: "",
         title: "Issue One",
         body: "Description of issue one",
         createdAt: "",
@@ -221,6 +759,8 @@ describe("buildCommentBody", () => {
       {
         number: 2,
         state: "closed",
+        kind: "issue",
+        url: "",
         title: "Issue Two",
         body: "Description of issue two",
         createdAt: "",
@@ -228,17 +768,20 @@ describe("buildCommentBody", () => {
       },
     ];
 
-    const expectedBody = `## ⚠️ Potential Duplicate/Semantically Similar Issues Identified
+    const expectedBody = `<!-- duplicate-identifier-action -->
+## ⚠️ Potential Duplicate/Semantically Similar Issues Identified
 The following issues may be duplicates or semantically similar to the current issue. Please review them:
 
 **Issue** #1: **high**
 **Title:** Issue One
 **State:** open
+**Type:** Issue
 **Reason:** Similar issue
 
 **Issue** #2: **medium**
 **Title:** Issue Two
 **State:** closed
+**Type:** Issue
 **Reason:** Some overlap
 `;
 
@@ -246,6 +789,63 @@ The following issues may be duplicates or semantically similar to the current is
     expect(result).toBe(expectedBody);
   });
 
+  it("should render verified evidence snippets", () => {
+    const outputs: ParsedOutput[] = [
+      {
+        issue: 1,
+        likelihood: "high",
+        reason: "Same crash",
+        evidence: {
+          current: "crash on save",
+          candidate: "crashes when saving",
+        },
+      },
+    ];
+
+    expect(buildCommentBody(outputs, [])).toContain(
+      '**Evidence:** "crash on save" ↔ #1: "crashes when saving"',
+    );
+  });
+
+  it("should render at most maxResults entries in the given order", () => {
+    const outputs: ParsedOutput[] = [
+      { issue: 2, likelihood: "medium" },
+      { issue: 1, likelihood: "high" },
+      { issue: 3, likelihood: "low" },
+    ];
+
+    const result = buildCommentBody(outputs, [], 2);
+
+    expect(result.indexOf("#2")).toBeLessThan(result.indexOf("#1"));
+    expect(result).not.toContain("**Issue** #3");
+    expect(result).toContain("_1 more similar issue(s) not shown._");
+  });
+
+  it("should start with the hidden comment marker", () => {
+    const outputs: ParsedOutput[] = [{ issue: 1, likelihood: "high" }];
+    const result = buildCommentBody(outputs, []);
+    expect(result.split("\n")[0]).toBe(COMMENT_MARKER);
+  });
+
+  it("should label pull request candidates", () => {
+    const outputs: ParsedOutput[] = [{ issue: 5, likelihood: "high" }];
+    const issuesToCompare: Issue[] = [
+      {
+        number: 5,
+        state: "open",
+        kind: "pull_request",
+        url: "",
+        title: "Add retries",
+        body: "",
+        createdAt: "",
+        updatedAt: "",
+      },
+    ];
+
+    const result = buildCommentBody(outputs, issuesToCompare);
+    expect(result).toContain("**Type:** Pull Request");
+  });
+
   it("should return 'No similar issues found.' when outputs are empty", () => {
     const outputs: ParsedOutput[] = [];
     const issuesToCompare: Issue[] = [];
@@ -262,6 +862,8 @@ The following issues may be duplicates or semantically similar to the current is
       {
         number: 3,
         state: "open",
+        kind: "issue",
+        url: "",
         title: "",
         body: "",
         createdAt: "",
@@ -269,12 +871,14 @@ The following issues may be duplicates or semantically similar to the current is
       },
     ];
 
-    const expectedBody = `## ⚠️ Potential Duplicate/Semantically Similar Issues Identified
+    const expectedBody = `<!-- duplicate-identifier-action -->
+## ⚠️ Potential Duplicate/Semantically Similar Issues Identified
 The following issues may be duplicates or semantically similar to the current issue. Please review them:
 
 **Issue** #3: **low**
 **Title:** N/A
 **State:** open
+**Type:** Issue
 **Reason:** N/A
 `;
 
@@ -282,3 +886,544 @@ The following issues may be duplicates or semantically similar to the current is
     expect(result).toBe(expectedBody);
   });
 });
+
+describe("selectComments", () => {
+  const makeComment = (
+    id: number,
+    authorAssociation: string,
+    body = `Comment ${id}`,
+  ): IssueComment => ({
+    id,
+    body,
+    author: `user${id}`,
+    authorAssociation,
+    createdAt: `2025-01-0${id}T00:00:00Z`,
+  });
+
+  it("should prefer maintainers, then recent comments, in chronological order", () => {
+    const comments = [
+      makeComment(1, "NONE"),
+      makeComment(2, "OWNER"),
+      makeComment(3, "NONE"),
+      makeComment(4, "CONTRIBUTOR"),
+      makeComment(5, "COLLABORATOR"),
+    ];
+
+    expect(selectComments(comments, 3).map(({ id }) => id)).toEqual([2, 4, 5]);
+  });
+
+  it("should skip comments left by the action", () => {
+    const comments = [
+      makeComment(1, "MEMBER", `${COMMENT_MARKER}\nPossible duplicates`),
+      makeComment(2, "NONE"),
+    ];
+
+    expect(selectComments(comments, 3).map(({ id }) => id)).toEqual([2]);
+  });
+});
+
+describe("describeResolution", () => {
+  const closedIssue: Issue = {
+    number: 7,
+    state: "closed",
+    stateReason: "completed",
+    kind: "issue",
+    url: "",
+    title: "Crash on save",
+    body: "",
+    createdAt: "",
+    updatedAt: "",
+  };
+
+  it("should quote the latest maintainer comment of a closed issue", () => {
+    const issue: Issue = {
+      ...closedIssue,
+      comments: [
+        {
+          id: 1,
+          body: "Fixed in   v2.3",
+          author: "octocat",
+          authorAssociation: "OWNER",
+          createdAt: "",
+        },
+        {
+          id: 2,
+          body: "Thanks!",
+          author: "reporter",
+          authorAssociation: "NONE",
+          createdAt: "",
+        },
+      ],
+    };
+
+    expect(describeResolution(issue)).toBe(
+      'Closed as completed, @octocat: "Fixed in v2.3"',
+    );
+    expect(
+      buildCommentBody([{ issue: 7, likelihood: "high" }], [issue]),
+    ).toContain(
+      '**Resolution:** Closed as completed, @octocat: "Fixed in v2.3"',
+    );
+  });
+
+  it("should fall back to the close reason and skip open issues", () => {
+    expect(
+      describeResolution({ ...closedIssue, stateReason: "not_planned" }),
+    ).toBe("Closed as not planned");
+    expect(
+      describeResolution({ ...closedIssue, stateReason: undefined }),
+    ).toBeUndefined();
+    expect(
+      describeResolution({ ...closedIssue, state: "open" }),
+    ).toBeUndefined();
+  });
+});
+
+describe("filterByLikelihood", () => {
+  const outputs = [
+    { issue: 1, likelihood: "low" },
+    { issue: 2, likelihood: "Medium" },
+    { issue: 3, likelihood: "high" },
+  ] as ParsedOutput[];
+
+  it("should keep every entry for 'low'", () => {
+    expect(
+      filterByLikelihood(outputs, "low").map(({ issue }) => issue),
+    ).toEqual([1, 2, 3]);
+  });
+
+  it("should keep entries at or above 'medium' case-insensitively", () => {
+    expect(
+      filterByLikelihood(outputs, "medium").map(({ issue }) => issue),
+    ).toEqual([2, 3]);
+  });
+
+  it("should keep only 'high' entries for 'high'", () => {
+    expect(
+      filterByLikelihood(outputs, "high").map(({ issue }) => issue),
+    ).toEqual([3]);
+  });
+
+  it("should produce no comment when only low matches are below the threshold", () => {
+    const findings = filterByLikelihood(
+      [{ issue: 1, likelihood: "low" }],
+      "medium",
+    );
+    expect(buildCommentBody(findings, [])).toBe("No similar issues found.");
+  });
+});
+
+describe("verifyLikelihoodInput", () => {
+  it("should return the same valid likelihood", () => {
+    expect(verifyLikelihoodInput("high")).toBe("high");
+    expect(verifyLikelihoodInput("medium")).toBe("medium");
+    expect(verifyLikelihoodInput("low")).toBe("low");
+  });
+
+  it("should throw an error for invalid likelihood", () => {
+    expect(() => verifyLikelihoodInput("certain")).toThrow(
+      "Invalid likelihood: certain. Valid likelihoods are: high, medium, low",
+    );
+  });
+});
+
+describe("parseLikelihoodLabels", () => {
+  it("should map likelihoods to labels", () => {
+    expect(
+      parseLikelihoodLabels(
+        "high:duplicate, medium:possible-duplicate,HIGH:needs-triage",
+      ),
+    ).toEqual({
+      high: ["duplicate", "needs-triage"],
+      medium: ["possible-duplicate"],
+    });
+  });
+
+  it("should return an empty mapping for empty input", () => {
+    expect(parseLikelihoodLabels("")).toEqual({});
+  });
+
+  it("should throw an error for entries without a label", () => {
+    expect(() => parseLikelihoodLabels("high")).toThrow(
+      "Invalid likelihood label mapping: high. Expected format is likelihood:label",
+    );
+    expect(() => parseLikelihoodLabels("sure:duplicate")).toThrow(
+      "Invalid likelihood: sure",
+    );
+  });
+});
+
+describe("getLikelihoodLabels", () => {
+  const mapping = {
+    high: ["duplicate"],
+    medium: ["possible-duplicate"],
+  };
+
+  it("should return the labels of the strongest match", () => {
+    const outputs: ParsedOutput[] = [
+      { issue: 1, likelihood: "medium" },
+      { issue: 2, likelihood: "high" },
+    ];
+    expect(getLikelihoodLabels(outputs, mapping)).toEqual(["duplicate"]);
+  });
+
+  it("should return no labels when the strongest match is unmapped", () => {
+    const outputs: ParsedOutput[] = [{ issue: 1, likelihood: "low" }];
+    expect(getLikelihoodLabels(outputs, mapping)).toEqual([]);
+  });
+
+  it("should return no labels without outputs", () => {
+    expect(getLikelihoodLabels([], mapping)).toEqual([]);
+  });
+});
+
+describe("consolidateOutputs", () => {
+  it("should keep one entry per issue with the strongest likelihood", () => {
+    const outputs = [
+      { issue: 1, likelihood: "low", reason: "weak" },
+      { issue: 2, likelihood: "medium", reason: "batch 1" },
+      { issue: 1, likelihood: "High", reason: "strong" },
+      { issue: 2, likelihood: "medium", reason: "batch 2" },
+    ] as ParsedOutput[];
+
+    expect(consolidateOutputs(outputs)).toEqual([
+      { issue: 1, likelihood: "high", reason: "strong" },
+      { issue: 2, likelihood: "medium", reason: "batch 1" },
+    ]);
+  });
+
+  it("should keep issues with the same number in other repositories apart", () => {
+    const outputs: ParsedOutput[] = [
+      { issue: 4, likelihood: "low" },
+      { issue: 4, repo: "acme/sdk", likelihood: "high" },
+    ];
+    expect(consolidateOutputs(outputs)).toEqual([
+      { issue: 4, repo: "acme/sdk", likelihood: "high" },
+      { issue: 4, likelihood: "low" },
+    ]);
+  });
+
+  it("should order entries from strongest to weakest", () => {
+    const outputs: ParsedOutput[] = [
+      { issue: 7, likelihood: "medium" },
+      { issue: 3, likelihood: "low" },
+      { issue: 2, likelihood: "high" },
+    ];
+    expect(consolidateOutputs(outputs).map(({ issue }) => issue)).toEqual([
+      2, 7, 3,
+    ]);
+  });
+});
+
+describe("applyRanking", () => {
+  const outputs: ParsedOutput[] = [
+    { issue: 1, likelihood: "high", reason: "a" },
+    { issue: 2, likelihood: "high", reason: "b" },
+    { issue: 3, likelihood: "medium", reason: "c" },
+  ];
+
+  it("should order outputs as ranked and keep their original details", () => {
+    const ranked: ParsedOutput[] = [
+      { issue: 3, likelihood: "high", reason: "x" },
+      { issue: 1, likelihood: "low", reason: "y" },
+      { issue: 2, likelihood: "low" },
+    ];
+    expect(applyRanking(outputs, ranked)).toEqual([
+      outputs[2]!,
+      outputs[0]!,
+      outputs[1]!,
+    ]);
+  });
+
+  it("should ignore unknown or repeated issues and append omitted ones", () => {
+    const ranked: ParsedOutput[] = [
+      { issue: 2, likelihood: "high" },
+      { issue: 99, likelihood: "high" },
+      { issue: 2, likelihood: "high" },
+    ];
+    expect(applyRanking(outputs, ranked).map(({ issue }) => issue)).toEqual([
+      2, 1, 3,
+    ]);
+  });
+});
+
+describe("getTopDuplicate", () => {
+  it("should return the first entry with the highest likelihood", () => {
+    const outputs: ParsedOutput[] = [
+      { issue: 1, likelihood: "low" },
+      { issue: 2, likelihood: "medium" },
+      { issue: 3, likelihood: "medium" },
+    ];
+    expect(getTopDuplicate(outputs)?.issue).toBe(2);
+  });
+
+  it("should compare likelihoods case-insensitively", () => {
+    const outputs = [
+      { issue: 1, likelihood: "medium" },
+      { issue: 2, likelihood: "HIGH" },
+    ] as ParsedOutput[];
+    expect(getTopDuplicate(outputs)?.issue).toBe(2);
+  });
+
+  it("should return undefined for no outputs", () => {
+    expect(getTopDuplicate([])).toBeUndefined();
+  });
+});
+
+describe("buildDuplicateMatches", () => {
+  it("should enrich outputs with title, state and url", () => {
+    const outputs = [
+      { issue: 1, likelihood: "High", reason: "Same crash" },
+      { issue: 9, likelihood: "low" },
+    ] as ParsedOutput[];
+    const issuesToCompare: Issue[] = [
+      {
+        number: 1,
+        state: "open",
+        kind: "issue",
+        url: "https://github.com/o/r/issues/1",
+        title: "Crash on start",
+        body: "",
+        createdAt: "",
+        updatedAt: "",
+      },
+    ];
+
+    expect(buildDuplicateMatches(outputs, issuesToCompare)).toEqual([
+      {
+        issue: 1,
+        likelihood: "high",
+        reason: "Same crash",
+        title: "Crash on start",
+        state: "open",
+        url: "https://github.com/o/r/issues/1",
+      },
+      { issue: 9, likelihood: "low", title: "", state: "", url: "" },
+    ]);
+  });
+
+  it("should mark whether discussions are answered", () => {
+    const discussion: Issue = {
+      number: 4,
+      state: "open",
+      kind: "discussion",
+      url: "https://github.com/o/r/discussions/4",
+      title: "How do I configure proxies?",
+      body: "",
+      createdAt: "",
+      updatedAt: "",
+      answered: true,
+    };
+    const outputs: ParsedOutput[] = [{ issue: 4, likelihood: "high" }];
+
+    expect(buildDuplicateMatches(outputs, [discussion])).toEqual([
+      {
+        issue: 4,
+        likelihood: "high",
+        title: "How do I configure proxies?",
+        state: "open",
+        url: "https://github.com/o/r/discussions/4",
+        answered: true,
+      },
+    ]);
+    expect(buildCommentBody(outputs, [discussion])).toContain(
+      "**Type:** Discussion (answered ✅)",
+    );
+  });
+});
+
+describe("selectAutoCloseTarget", () => {
+  it("should pick the first high match that is open", () => {
+    const outputs: ParsedOutput[] = [
+      { issue: 1, likelihood: "medium" },
+      { issue: 2, likelihood: "high" },
+      { issue: 3, likelihood: "high" },
+    ];
+    const issues = [makeIssue(1), makeIssue(2), makeIssue(3)];
+    expect(selectAutoCloseTarget(outputs, issues)?.number).toBe(2);
+  });
+
+  it("should accept issues closed as completed", () => {
+    const outputs: ParsedOutput[] = [{ issue: 1, likelihood: "high" }];
+    const issues = [
+      makeIssue(1, { state: "closed", stateReason: "completed" }),
+    ];
+    expect(selectAutoCloseTarget(outputs, issues)?.number).toBe(1);
+  });
+
+  it("should skip issues closed as not planned and pull requests", () => {
+    const outputs: ParsedOutput[] = [
+      { issue: 1, likelihood: "high" },
+      { issue: 2, likelihood: "high" },
+    ];
+    const issues = [
+      makeIssue(1, { state: "closed", stateReason: "not_planned" }),
+      makeIssue(2, { kind: "pull_request" }),
+    ];
+    expect(selectAutoCloseTarget(outputs, issues)).toBeUndefined();
+  });
+
+  it("should skip matches that are not high", () => {
+    const outputs: ParsedOutput[] = [{ issue: 1, likelihood: "medium" }];
+    expect(selectAutoCloseTarget(outputs, [makeIssue(1)])).toBeUndefined();
+  });
+
+  it("should skip matches in other repositories", () => {
+    const outputs: ParsedOutput[] = [
+      { issue: 1, repo: "acme/sdk", likelihood: "high" },
+    ];
+    const issues = [makeIssue(1), makeIssue(1, { repo: "acme/sdk" })];
+    expect(selectAutoCloseTarget(outputs, issues)).toBeUndefined();
+  });
+});
+
+describe("buildCloseNoticeBody & parseCloseNotice", () => {
+  it("should round-trip the close notice metadata", () => {
+    const notice = { duplicateOf: 42, closeAfter: "2025-01-04T00:00:00.000Z" };
+    const body = buildCloseNoticeBody(notice);
+
+    expect(body).toContain("Closing as a duplicate of #42");
+    expect(parseCloseNotice(body)).toEqual(notice);
+  });
+
+  it("should return undefined for comments without a notice", () => {
+    expect(parseCloseNotice("Just a comment")).toBeUndefined();
+  });
+
+  it("should return undefined for malformed metadata", () => {
+    expect(
+      parseCloseNotice(
+        '<!-- duplicate-identifier-action:close-notice {"duplicateOf":"x"} -->',
+      ),
+    ).toBeUndefined();
+    expect(
+      parseCloseNotice(
+        "<!-- duplicate-identifier-action:close-notice {oops -->",
+      ),
+    ).toBeUndefined();
+  });
+});
+
+describe("buildFindingsMarker & parseFindingsMarker", () => {
+  it("should round-trip the findings of a comment", () => {
+    const findings: ParsedOutput[] = [
+      { issue: 42, likelihood: "high", reason: "Ends in --> on purpose" },
+      { issue: 7, repo: "octo/other", likelihood: "low" },
+    ];
+    const marker = buildFindingsMarker(findings);
+
+    expect(marker.indexOf("-->")).toBe(marker.length - 3);
+    expect(parseFindingsMarker(`Comment\n${marker}`)).toEqual(findings);
+  });
+
+  it("should return undefined without valid findings", () => {
+    expect(parseFindingsMarker("Just a comment")).toBeUndefined();
+    expect(
+      parseFindingsMarker(
+        '<!-- duplicate-identifier-action:findings [{"issue":"x"}] -->',
+      ),
+    ).toBeUndefined();
+  });
+});
+
+describe("parseRetryAfterMs", () => {
+  const now = Date.parse("2025-01-01T00:00:00Z");
+
+  it("should read Retry-After in seconds", () => {
+    expect(parseRetryAfterMs({ "retry-after": "5" }, now)).toBe(5000);
+  });
+
+  it("should read Retry-After as an HTTP date", () => {
+    expect(
+      parseRetryAfterMs(
+        { "Retry-After": "Wed, 01 Jan 2025 00:00:10 GMT" },
+        now,
+      ),
+    ).toBe(10_000);
+  });
+
+  it("should fall back to the rate-limit reset header", () => {
+    expect(
+      parseRetryAfterMs({ "x-ratelimit-reset": String(now / 1000 + 30) }, now),
+    ).toBe(30_000);
+  });
+
+  it("should return undefined without timing headers", () => {
+    expect(
+      parseRetryAfterMs({ "content-type": "application/json" }),
+    ).toBeUndefined();
+  });
+});
+
+describe("classifyAiError", () => {
+  it("should treat short rate limits as retryable", () => {
+    expect(
+      classifyAiError({
+        status: 429,
+        retryAfterMs: 2000,
+        message: "Slow down",
+      }),
+    ).toBe("retryable");
+  });
+
+  it("should treat long rate limits and quota messages as quota", () => {
+    expect(
+      classifyAiError({
+        status: 429,
+        retryAfterMs: 3_600_000,
+        message: "Rate limit",
+      }),
+    ).toBe("quota");
+    expect(
+      classifyAiError({
+        status: 429,
+        message: "Rate limit of 150 per 86400s exceeded for UserByModelByDay",
+      }),
+    ).toBe("quota");
+  });
+
+  it("should treat server and network errors as retryable", () => {
+    expect(classifyAiError({ status: 503, message: "Unavailable" })).toBe(
+      "retryable",
+    );
+    expect(classifyAiError({ message: "ECONNRESET" })).toBe("retryable");
+  });
+
+  it("should treat other client errors as fatal", () => {
+    expect(classifyAiError({ status: 401, message: "Unauthorized" })).toBe(
+      "fatal",
+    );
+    expect(classifyAiError({ status: 400, message: "Bad model" })).toBe(
+      "fatal",
+    );
+  });
+});
+
+describe("getRetryDelayMs", () => {
+  it("should back off exponentially up to 30 seconds", () => {
+    expect(getRetryDelayMs(0)).toBe(1000);
+    expect(getRetryDelayMs(2)).toBe(4000);
+    expect(getRetryDelayMs(10)).toBe(30_000);
+  });
+
+  it("should prefer the server provided delay", () => {
+    expect(getRetryDelayMs(3, 1500)).toBe(1500);
+  });
+});
+
+describe("parseDuplicateOf", () => {
+  it("should read the issue numbers of Duplicate of lines", () => {
+    expect(parseDuplicateOf("Duplicate of #12")).toEqual([12]);
+    expect(
+      parseDuplicateOf("Thanks!\n\nduplicate of #3\nDuplicate of #4"),
+    ).toEqual([3, 4]);
+    expect(parseDuplicateOf("Maybe a duplicate of #12?")).toEqual([]);
+  });
+});
+
+describe("pairKey", () => {
+  it("should be the same for both directions of a pair", () => {
+    expect(pairKey(3, { issue: 5 })).toBe(pairKey(5, { issue: 3 }));
+    expect(pairKey(3, { issue: 5, repo: "acme/sdk" })).toBe("#3 acme/sdk#5");
+  });
+});
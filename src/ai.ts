@@ -1,59 +1,132 @@
-import * as core from "@actions/core";
-import ModelClient, { isUnexpected } from "@azure-rest/ai-inference";
-import { AzureKeyCredential } from "@azure/core-auth";
-import type { AiInferenceFn } from "./types";
+import {
+  extractJsonArray,
+  verifyJsonResponse,
+  repairPromptMsg,
+  getRetryDelayMs,
+} from "./utils";
+import { AiInferenceError, getChatCompletion } from "./providers";
+import type { AiInferenceFn, InferBatchFn } from "./types";
 
-export const aiInference: AiInferenceFn = async ({
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const requestCompletion = ({
+  provider = "azure",
   systemPromptMsg,
   endpoint,
   modelName,
   maxTokens,
   token,
   content,
-}) => {
-  try {
-    console.log("AI configuration:");
-    console.log(`Endpoint: ${endpoint}`);
-    console.log(`Model: ${modelName}`);
-    console.log(`Max Tokens: ${maxTokens}`);
-    const client = ModelClient(endpoint, new AzureKeyCredential(token));
-
-    const response = await client.path("/chat/completions").post({
-      body: {
-        messages: [
-          {
-            role: "system",
-            content: systemPromptMsg,
-          },
-          { role: "user", content },
-        ],
-        max_tokens: maxTokens,
-        model: modelName,
-      },
-    });
-
-    if (isUnexpected(response)) {
-      if (response.body.error) {
-        throw response.body.error;
+  messages,
+  structuredOutput,
+}: Parameters<AiInferenceFn>[0]): Promise<string | undefined> =>
+  getChatCompletion(provider)({
+    endpoint,
+    modelName,
+    maxTokens,
+    token,
+    systemPrompt: systemPromptMsg,
+    messages: [{ role: "user", content }, ...(messages ?? [])],
+    structuredOutput,
+  });
+
+/**
+ * Calls the chat endpoint of the configured provider, retrying retryable
+ * errors (rate limits, 5xx, network failures) with exponential backoff that
+ * honors Retry-After and rate-limit reset headers. Throws an AiInferenceError
+ * once retries are exhausted or the error is quota-exhausted or fatal.
+ */
+export const aiInference: AiInferenceFn = async (params) => {
+  const {
+    provider = "azure",
+    endpoint,
+    modelName,
+    maxTokens,
+    maxRetries = 0,
+    onRetry,
+    log = console.log,
+  } = params;
+  log("AI configuration:");
+  log(`Provider: ${provider}`);
+  log(`Endpoint: ${endpoint}`);
+  log(`Model: ${modelName}`);
+  log(`Max Tokens: ${maxTokens}`);
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await requestCompletion(params);
+    } catch (error) {
+      const aiError =
+        error instanceof AiInferenceError
+          ? error
+          : new AiInferenceError(
+              error instanceof Error
+                ? error.message
+                : "An unexpected error occurred",
+              "retryable",
+            );
+
+      if (aiError.kind !== "retryable" || attempt >= maxRetries) {
+        throw aiError;
       }
-      throw new Error(
-        "An error occurred while fetching the response (" +
-          response.status +
-          "): " +
-          response.body,
+
+      onRetry?.(aiError);
+      const delayMs = getRetryDelayMs(attempt, aiError.retryAfterMs);
+      console.warn(
+        `AI request failed (${aiError.message}), retrying in ${delayMs}ms (attempt ${attempt + 1}/${maxRetries}).`,
       );
+      await sleep(delayMs);
     }
+  }
+};
 
-    const modelResponse: string | null =
-      response.body.choices?.[0]?.message?.content ?? null;
+const inferAndRepair: InferBatchFn = async (params) => {
+  const { log = console.log } = params;
+  const response = await aiInference(params);
+  if (!response) return { status: "no-response", outputs: [] };
 
-    return modelResponse ?? undefined;
+  const parsed = extractJsonArray(response);
+  log("Parsed AI Output:", parsed);
+  if (verifyJsonResponse(parsed)) return { status: "ok", outputs: parsed };
+
+  console.warn("AI Output did not pass requested format, requesting repair.");
+  const repairResponse = await aiInference({
+    ...params,
+    messages: [
+      ...(params.messages ?? []),
+      { role: "assistant", content: response },
+      { role: "user", content: repairPromptMsg },
+    ],
+  });
+  const repaired = repairResponse ? extractJsonArray(repairResponse) : null;
+  log("Repaired AI Output:", repaired);
+  if (verifyJsonResponse(repaired)) {
+    return { status: "repaired", outputs: repaired };
+  }
+
+  console.warn("AI Output still invalid after repair, dropping batch.");
+  return { status: "dropped", outputs: [] };
+};
+
+/**
+ * Runs inference for one batch and validates the reply. When the reply can't
+ * be turned into valid ParsedOutput entries, the model is asked once to
+ * repair its output before the batch is dropped. Inference errors left after
+ * retries are reported as a "failed" batch instead of being thrown.
+ */
+export const inferBatchDuplicates: InferBatchFn = async (params) => {
+  try {
+    return await inferAndRepair(params);
   } catch (error) {
-    // Fail the workflow run if an error occurs
-    if (error instanceof Error) {
-      core.setFailed(error.message);
-    } else {
-      core.setFailed("An unexpected error occurred");
-    }
+    const aiError =
+      error instanceof AiInferenceError
+        ? error
+        : new AiInferenceError(String(error), "fatal");
+    console.error("AI inference failed:", aiError.message);
+    return {
+      status: "failed",
+      outputs: [],
+      error: { kind: aiError.kind, message: aiError.message },
+    };
   }
 };
@@ -1,17 +1,168 @@
+import {
+  COMMENT_MARKER,
+  PERMISSION_LEVELS,
+  buildSearchQuery,
+  matchesCandidateFilters,
+} from "./utils";
 import type {
   CreateIssueCommentFn,
+  CreateDiscussionCommentFn,
+  FindIssueCommentFn,
+  UpdateIssueCommentFn,
+  DeleteIssueCommentFn,
+  UpsertIssueCommentFn,
   AddIssueLabelsFn,
+  UpsertTrackingIssueFn,
+  GetIssueFn,
+  GetRepoFileFn,
   GetIssuesFn,
+  ListIssuesFn,
+  GetDiscussionsFn,
+  GetPullRequestsFn,
+  GetPullRequestFilesFn,
+  GetLabeledIssuesFn,
+  ListIssueCommentsFn,
+  ListCommentReactionsFn,
+  ListIssueEventsFn,
+  ListOrgReposFn,
+  CloseIssueAsDuplicateFn,
+  RemoveIssueLabelFn,
+  GetCollaboratorPermissionFn,
+  CreateCommentReactionFn,
   Issue,
+  PermissionLevel,
 } from "./types";
 
-export const getIssuesToCompare: GetIssuesFn = async ({
+// Shape shared by the REST issue list endpoints
+interface RestIssue {
+  number: number;
+  title: string;
+  body?: string | null;
+  state: string;
+  state_reason?: string | null;
+  pull_request?: unknown;
+  html_url: string;
+  created_at: string;
+  updated_at: string;
+  user: { login: string } | null;
+  comments?: number;
+  labels?: (string | { name?: string })[];
+  milestone?: { title: string } | null;
+}
+
+const toLabelNames = (labels: RestIssue["labels"] = []): string[] =>
+  labels
+    .map((label) => (typeof label === "string" ? label : (label.name ?? "")))
+    .filter(Boolean);
+
+const toIssue = (issue: RestIssue): Issue => ({
+  number: issue.number,
+  title: issue.title,
+  body: issue.body || "",
+  state: issue.state,
+  kind: issue.pull_request ? "pull_request" : "issue",
+  url: issue.html_url,
+  createdAt: issue.created_at,
+  updatedAt: issue.updated_at,
+  ...(issue.state_reason ? { stateReason: issue.state_reason } : {}),
+  ...(issue.user ? { author: issue.user.login } : {}),
+  ...(issue.comments !== undefined ? { commentCount: issue.comments } : {}),
+  ...(issue.labels ? { labels: toLabelNames(issue.labels) } : {}),
+  ...(issue.milestone ? { milestone: issue.milestone.title } : {}),
+});
+
+export const getIssue: GetIssueFn = async ({
+  octokit,
+  owner,
+  repo,
+  issueNumber,
+}) => {
+  try {
+    const { data } = await octokit.rest.issues.get({
+      owner,
+      repo,
+      issue_number: issueNumber,
+    });
+    return toIssue(data);
+  } catch (error) {
+    console.error(`Error fetching issue #${issueNumber}:`, error);
+    return undefined;
+  }
+};
+
+// Missing files are expected, e.g. an optional config file
+export const getRepoFile: GetRepoFileFn = async ({
+  octokit,
+  owner,
+  repo,
+  path,
+}) => {
+  try {
+    const { data } = await octokit.rest.repos.getContent({ owner, repo, path });
+    if (Array.isArray(data) || data.type !== "file" || !("content" in data)) {
+      console.error(`${path} is not a file in ${owner}/${repo}`);
+      return undefined;
+    }
+    return Buffer.from(data.content, "base64").toString("utf8");
+  } catch (error) {
+    if ((error as { status?: number }).status !== 404) {
+      console.error(`Error reading ${path}:`, error);
+    }
+    return undefined;
+  }
+};
+
+// Search results are capped at 1000 issues by GitHub
+const searchIssuesToCompare: GetIssuesFn = async ({
   octokit,
   owner,
   repo,
   issueNumber,
   issueStateFilter,
   timeFilter,
+  includePullRequests,
+  filters,
+}) => {
+  const q = buildSearchQuery({
+    owner,
+    repo,
+    searchQuery: filters?.searchQuery ?? "",
+    issueStateFilter,
+    includePullRequests,
+  });
+  try {
+    const items = await octokit.paginate(
+      octokit.rest.search.issuesAndPullRequests,
+      { q, per_page: 100 },
+    );
+    return items
+      .filter((issue) => issue.number !== issueNumber)
+      .filter((issue) => includePullRequests || !issue.pull_request)
+      .map(toIssue)
+      .filter(
+        (issue) =>
+          (!timeFilter || new Date(issue.updatedAt) >= new Date(timeFilter)) &&
+          (!filters || matchesCandidateFilters(issue, filters)),
+      );
+  } catch (error) {
+    console.error(`Error searching issues (${q}):`, error);
+    return [];
+  }
+};
+
+/**
+ * Lists the repository's issues page by page. A failed page ends the listing,
+ * reported through `complete` for callers that must not miss issues.
+ */
+export const listIssues: ListIssuesFn = async ({
+  octokit,
+  owner,
+  repo,
+  issueNumber,
+  issueStateFilter,
+  timeFilter,
+  includePullRequests,
+  filters,
 }) => {
   const collected: Issue[] = [];
   let page = 1;
@@ -35,14 +186,9 @@ export const getIssuesToCompare: GetIssuesFn = async ({
 
       const pageIssues: Issue[] = response.data
         .filter((issue) => issue.number !== issueNumber)
-        .map((issue) => ({
-          number: issue.number,
-          title: issue.title,
-          body: issue.body || "",
-          state: issue.state,
-          createdAt: issue.created_at,
-          updatedAt: issue.updated_at,
-        }));
+        .filter((issue) => includePullRequests || !issue.pull_request)
+        .map(toIssue)
+        .filter((issue) => !filters || matchesCandidateFilters(issue, filters));
 
       collected.push(...pageIssues);
 
@@ -50,6 +196,248 @@ export const getIssuesToCompare: GetIssuesFn = async ({
       page += 1;
     } catch (error) {
       console.error("Error fetching issues (page", page, "):", error);
+      return { issues: collected, complete: false };
+    }
+  }
+
+  return { issues: collected, complete: true };
+};
+
+export const getIssuesToCompare: GetIssuesFn = async (params) =>
+  params.filters?.searchQuery
+    ? searchIssuesToCompare(params)
+    : (await listIssues(params)).issues;
+
+interface DiscussionsQuery {
+  repository: {
+    discussions: {
+      pageInfo: { hasNextPage: boolean; endCursor: string | null };
+      nodes: {
+        number: number;
+        title: string;
+        body: string;
+        url: string;
+        createdAt: string;
+        updatedAt: string;
+        closed: boolean;
+        isAnswered: boolean | null;
+        author: { login: string } | null;
+        labels: { nodes: { name: string }[] } | null;
+      }[];
+    };
+  } | null;
+}
+
+const DISCUSSIONS_QUERY = `
+  query ($owner: String!, $repo: String!, $cursor: String) {
+    repository(owner: $owner, name: $repo) {
+      discussions(
+        first: 100
+        after: $cursor
+        orderBy: { field: UPDATED_AT, direction: DESC }
+      ) {
+        pageInfo {
+          hasNextPage
+          endCursor
+        }
+        nodes {
+          number
+          title
+          body
+          url
+          createdAt
+          updatedAt
+          closed
+          isAnswered
+          author {
+            login
+          }
+          labels(first: 20) {
+            nodes {
+              name
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+// The REST API doesn't cover discussions, they are read through GraphQL
+export const getDiscussionsToCompare: GetDiscussionsFn = async ({
+  octokit,
+  owner,
+  repo,
+  discussionNumber,
+  issueStateFilter,
+  timeFilter,
+  filters,
+}) => {
+  const collected: Issue[] = [];
+  let cursor: string | null = null;
+
+  while (true) {
+    try {
+      const response: DiscussionsQuery = await octokit.graphql(
+        DISCUSSIONS_QUERY,
+        { owner, repo, cursor },
+      );
+      const discussions = response.repository?.discussions;
+      if (!discussions) break;
+
+      // Ordered by update time, so the first older discussion ends the fetch
+      let reachedTimeFilter = false;
+      for (const node of discussions.nodes) {
+        if (timeFilter && new Date(node.updatedAt) < new Date(timeFilter)) {
+          reachedTimeFilter = true;
+          break;
+        }
+        const discussion: Issue = {
+          number: node.number,
+          title: node.title,
+          body: node.body || "",
+          state: node.closed ? "closed" : "open",
+          kind: "discussion",
+          url: node.url,
+          createdAt: node.createdAt,
+          updatedAt: node.updatedAt,
+          ...(node.author ? { author: node.author.login } : {}),
+          labels: (node.labels?.nodes ?? []).map(({ name }) => name),
+          answered: node.isAnswered ?? false,
+        };
+        if (
+          discussion.number !== discussionNumber &&
+          (issueStateFilter === "all" ||
+            discussion.state === issueStateFilter) &&
+          (!filters || matchesCandidateFilters(discussion, filters))
+        ) {
+          collected.push(discussion);
+        }
+      }
+
+      if (reachedTimeFilter || !discussions.pageInfo.hasNextPage) break;
+      cursor = discussions.pageInfo.endCursor;
+    } catch (error) {
+      console.error("Error fetching discussions:", error);
+      break;
+    }
+  }
+
+  return collected;
+};
+
+export const createDiscussionComment: CreateDiscussionCommentFn = async ({
+  octokit,
+  discussionId,
+  body,
+}) => {
+  try {
+    const response: { addDiscussionComment: { comment: { url: string } } } =
+      await octokit.graphql(
+        `mutation ($discussionId: ID!, $body: String!) {
+          addDiscussionComment(input: { discussionId: $discussionId, body: $body }) {
+            comment {
+              url
+            }
+          }
+        }`,
+        { discussionId, body },
+      );
+    console.log(
+      "Comment created successfully:",
+      response.addDiscussionComment.comment.url,
+    );
+    return true;
+  } catch (error) {
+    console.error("Error creating discussion comment:", error);
+    return false;
+  }
+};
+
+// Archived repositories are skipped, their issues can't change anymore
+export const listOrgRepos: ListOrgReposFn = async ({ octokit, org }) => {
+  try {
+    const repos = await octokit.paginate(octokit.rest.repos.listForOrg, {
+      org,
+      per_page: 100,
+    });
+    return repos
+      .filter(({ archived }) => !archived)
+      .map(({ full_name }) => full_name);
+  } catch (error) {
+    console.error(`Error listing repositories of ${org}:`, error);
+    return [];
+  }
+};
+
+export const getPullRequestFiles: GetPullRequestFilesFn = async ({
+  octokit,
+  owner,
+  repo,
+  pullNumber: pull_number,
+}) => {
+  try {
+    const files = await octokit.paginate(octokit.rest.pulls.listFiles, {
+      owner,
+      repo,
+      pull_number,
+      per_page: 100,
+    });
+    return files.map((file) => file.filename);
+  } catch (error) {
+    console.error("Error fetching files for pull request", pull_number, error);
+    return [];
+  }
+};
+
+export const getPullRequestsToCompare: GetPullRequestsFn = async ({
+  octokit,
+  owner,
+  repo,
+  pullNumber,
+  filters,
+}) => {
+  const collected: Issue[] = [];
+  let page = 1;
+  const per_page = 100;
+
+  while (true) {
+    try {
+      const response = await octokit.rest.pulls.list({
+        owner,
+        repo,
+        state: "open",
+        per_page,
+        page,
+      });
+
+      if (!response.data.length) break;
+
+      for (const pull of response.data) {
+        if (pull.number === pullNumber) continue;
+        const pullRequest: Issue = {
+          number: pull.number,
+          title: pull.title,
+          body: pull.body || "",
+          state: pull.state,
+          kind: "pull_request",
+          url: pull.html_url,
+          createdAt: pull.created_at,
+          updatedAt: pull.updated_at,
+          ...(pull.user ? { author: pull.user.login } : {}),
+          labels: toLabelNames(pull.labels),
+          ...(pull.milestone ? { milestone: pull.milestone.title } : {}),
+        };
+        if (filters && !matchesCandidateFilters(pullRequest, filters)) {
+          continue;
+        }
+        collected.push(pullRequest);
+      }
+
+      if (response.data.length < per_page) break;
+      page += 1;
+    } catch (error) {
+      console.error("Error fetching pull requests (page", page, "):", error);
       break;
     }
   }
@@ -84,6 +472,259 @@ export const createIssueComment: CreateIssueCommentFn = async ({
   }
 };
 
+export const getLabeledIssues: GetLabeledIssuesFn = async ({
+  octokit,
+  owner,
+  repo,
+  label,
+}) => {
+  try {
+    const issues = await octokit.paginate(octokit.rest.issues.listForRepo, {
+      owner,
+      repo,
+      state: "open",
+      labels: label,
+      per_page: 100,
+    });
+    return issues.filter((issue) => !issue.pull_request).map(toIssue);
+  } catch (error) {
+    console.error(`Error fetching issues labeled "${label}":`, error);
+    return [];
+  }
+};
+
+export const listIssueComments: ListIssueCommentsFn = async ({
+  octokit,
+  owner,
+  repo,
+  issueNumber: issue_number,
+}) => {
+  try {
+    const comments = await octokit.paginate(octokit.rest.issues.listComments, {
+      owner,
+      repo,
+      issue_number,
+      per_page: 100,
+    });
+    return comments.map((comment) => ({
+      id: comment.id,
+      body: comment.body || "",
+      author: comment.user?.login ?? "",
+      authorAssociation: comment.author_association,
+      createdAt: comment.created_at,
+    }));
+  } catch (error) {
+    console.error("Error listing issue comments:", error);
+    return [];
+  }
+};
+
+export const listCommentReactions: ListCommentReactionsFn = async ({
+  octokit,
+  owner,
+  repo,
+  commentId: comment_id,
+}) => {
+  try {
+    const reactions = await octokit.paginate(
+      octokit.rest.reactions.listForIssueComment,
+      { owner, repo, comment_id, per_page: 100 },
+    );
+    return reactions.map((reaction) => ({
+      content: reaction.content,
+      user: reaction.user?.login ?? "",
+    }));
+  } catch (error) {
+    console.error("Error listing comment reactions:", error);
+    return [];
+  }
+};
+
+export const listIssueEvents: ListIssueEventsFn = async ({
+  octokit,
+  owner,
+  repo,
+  issueNumber: issue_number,
+}) => {
+  try {
+    const events = await octokit.paginate(octokit.rest.issues.listEvents, {
+      owner,
+      repo,
+      issue_number,
+      per_page: 100,
+    });
+    return events.map((event) => ({
+      event: event.event,
+      ...("label" in event && event.label ? { label: event.label.name } : {}),
+      actor: event.actor?.login ?? "",
+      actorIsBot: event.actor?.type === "Bot",
+      createdAt: event.created_at,
+    }));
+  } catch (error) {
+    console.error("Error listing issue events:", error);
+    return [];
+  }
+};
+
+export const findIssueComment: FindIssueCommentFn = async ({
+  octokit,
+  owner,
+  repo,
+  issueNumber: issue_number,
+  marker,
+}) => {
+  try {
+    const comments = await octokit.paginate(octokit.rest.issues.listComments, {
+      owner,
+      repo,
+      issue_number,
+      per_page: 100,
+    });
+    return comments.find((comment) => comment.body?.includes(marker))?.id;
+  } catch (error) {
+    console.error("Error listing issue comments:", error);
+    return undefined;
+  }
+};
+
+export const updateIssueComment: UpdateIssueCommentFn = async ({
+  octokit,
+  owner,
+  repo,
+  commentId: comment_id,
+  body,
+}) => {
+  try {
+    const response = await octokit.rest.issues.updateComment({
+      owner,
+      repo,
+      comment_id,
+      body,
+    });
+    console.log("Comment updated successfully:", response.data.html_url);
+    return true;
+  } catch (error) {
+    console.error("Error updating issue comment:", error);
+    return false;
+  }
+};
+
+export const deleteIssueComment: DeleteIssueCommentFn = async ({
+  octokit,
+  owner,
+  repo,
+  commentId: comment_id,
+}) => {
+  try {
+    await octokit.rest.issues.deleteComment({ owner, repo, comment_id });
+    console.log("Comment deleted successfully:", comment_id);
+    return true;
+  } catch (error) {
+    console.error("Error deleting issue comment:", error);
+    return false;
+  }
+};
+
+export const upsertIssueComment: UpsertIssueCommentFn = async ({
+  octokit,
+  owner,
+  repo,
+  issueNumber,
+  body,
+}) => {
+  const commentId = await findIssueComment({
+    octokit,
+    owner,
+    repo,
+    issueNumber,
+    marker: COMMENT_MARKER,
+  });
+
+  if (body === undefined) {
+    if (commentId === undefined) return true;
+    return deleteIssueComment({ octokit, owner, repo, commentId });
+  }
+
+  if (commentId === undefined) {
+    return createIssueComment({ octokit, owner, repo, issueNumber, body });
+  }
+  return updateIssueComment({ octokit, owner, repo, commentId, body });
+};
+
+export const closeIssueAsDuplicate: CloseIssueAsDuplicateFn = async ({
+  octokit,
+  owner,
+  repo,
+  issueNumber: issue_number,
+}) => {
+  try {
+    // The typed issues.update endpoint predates the "duplicate" state reason
+    await octokit.request({
+      method: "PATCH",
+      url: "/repos/{owner}/{repo}/issues/{issue_number}",
+      owner,
+      repo,
+      issue_number,
+      state: "closed",
+      state_reason: "duplicate",
+    });
+    console.log("Issue closed as duplicate:", issue_number);
+    return true;
+  } catch (error) {
+    console.error("Error closing issue as duplicate:", error);
+    return false;
+  }
+};
+
+/**
+ * Updates the open issue whose body contains `marker`, or creates one.
+ * Returns the issue number, or undefined on failure.
+ */
+export const upsertTrackingIssue: UpsertTrackingIssueFn = async ({
+  octokit,
+  owner,
+  repo,
+  title,
+  body,
+  marker,
+}) => {
+  try {
+    const openIssues = await octokit.paginate(octokit.rest.issues.listForRepo, {
+      owner,
+      repo,
+      state: "open",
+      per_page: 100,
+    });
+    const existing = openIssues.find(
+      (issue) => !issue.pull_request && issue.body?.includes(marker),
+    );
+
+    if (existing) {
+      await octokit.rest.issues.update({
+        owner,
+        repo,
+        issue_number: existing.number,
+        title,
+        body,
+      });
+      console.log("Tracking issue updated:", existing.html_url);
+      return existing.number;
+    }
+
+    const { data } = await octokit.rest.issues.create({
+      owner,
+      repo,
+      title,
+      body,
+    });
+    console.log("Tracking issue created:", data.html_url);
+    return data.number;
+  } catch (error) {
+    console.error("Error creating or updating tracking issue:", error);
+    return undefined;
+  }
+};
+
 export const addIssueLabels: AddIssueLabelsFn = async ({
   octokit,
   owner,
@@ -100,3 +741,65 @@ export const addIssueLabels: AddIssueLabelsFn = async ({
     return false;
   }
 };
+
+export const removeIssueLabel: RemoveIssueLabelFn = async ({
+  octokit,
+  owner,
+  repo,
+  issueNumber: issue_number,
+  label: name,
+}) => {
+  try {
+    await octokit.rest.issues.removeLabel({ owner, repo, issue_number, name });
+    console.log("Label removed successfully:", name);
+    return true;
+  } catch (error) {
+    console.error("Error removing label from issue:", error);
+    return false;
+  }
+};
+
+export const getCollaboratorPermission: GetCollaboratorPermissionFn = async ({
+  octokit,
+  owner,
+  repo,
+  username,
+}) => {
+  try {
+    const { data } = await octokit.rest.repos.getCollaboratorPermissionLevel({
+      owner,
+      repo,
+      username,
+    });
+    // Custom roles fall back to the base permission they extend
+    const role = data.role_name as PermissionLevel;
+    if (PERMISSION_LEVELS.includes(role)) return role;
+    return PERMISSION_LEVELS.includes(data.permission as PermissionLevel)
+      ? (data.permission as PermissionLevel)
+      : undefined;
+  } catch (error) {
+    console.error(`Error fetching the permission of ${username}:`, error);
+    return undefined;
+  }
+};
+
+export const createCommentReaction: CreateCommentReactionFn = async ({
+  octokit,
+  owner,
+  repo,
+  commentId: comment_id,
+  content,
+}) => {
+  try {
+    await octokit.rest.reactions.createForIssueComment({
+      owner,
+      repo,
+      comment_id,
+      content,
+    });
+    return true;
+  } catch (error) {
+    console.error("Error adding a reaction to the comment:", error);
+    return false;
+  }
+};
@@ -0,0 +1,251 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import type { GitHub } from "@actions/github/lib/utils";
+import { listIssues } from "./api";
+import { matchesCandidateFilters } from "./utils";
+import type {
+  CandidateFilters,
+  Issue,
+  LogFn,
+  ParsedOutput,
+  RunSummary,
+  VerdictCache,
+} from "./types";
+
+// Bumped when cached issues gain fields, so older corpora are fetched again
+const CORPUS_VERSION = 2;
+
+// Verdicts not used for this long are dropped when the cache is saved
+const VERDICT_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+interface IssueCorpusFile {
+  version: number;
+  // Start of the last fetch, used as `since` for the next refresh
+  fetchedAt: string;
+  issues: Issue[];
+}
+
+interface VerdictEntry {
+  verdict: ParsedOutput | null;
+  usedAt: string;
+}
+
+export const readJson = async <T>(path: string): Promise<T | undefined> => {
+  try {
+    return JSON.parse(await readFile(path, "utf8")) as T;
+  } catch {
+    // A missing or corrupt cache file only means a cold cache
+    return undefined;
+  }
+};
+
+export const writeJson = async (path: string, data: unknown) => {
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, JSON.stringify(data));
+};
+
+const corpusPath = (cacheDir: string, owner: string, repo: string) =>
+  join(cacheDir, `issues-${owner}-${repo}.json`);
+
+/**
+ * Returns every issue and pull request of the repository from the cache,
+ * refreshed with the items updated since the previous fetch. The first run
+ * fetches everything. Issues that were deleted or transferred stay cached.
+ * When a page fails, the previous fetch time is kept so the next run fetches
+ * the missed items again; a first fetch that failed isn't saved at all.
+ */
+export const refreshIssueCorpus = async ({
+  octokit,
+  owner,
+  repo,
+  cacheDir,
+}: {
+  octokit: InstanceType<typeof GitHub>;
+  owner: string;
+  repo: string;
+  cacheDir: string;
+}): Promise<{ issues: Issue[]; cached: number; updated: number }> => {
+  const path = corpusPath(cacheDir, owner, repo);
+  const storedCorpus = await readJson<IssueCorpusFile>(path);
+  const cachedCorpus =
+    storedCorpus?.version === CORPUS_VERSION ? storedCorpus : undefined;
+  const fetchedAt = new Date().toISOString();
+
+  const { issues: updatedIssues, complete } = await listIssues({
+    octokit,
+    owner,
+    repo,
+    issueStateFilter: "all",
+    timeFilter: cachedCorpus?.fetchedAt,
+    includePullRequests: true,
+  });
+
+  const byNumber = new Map(
+    (cachedCorpus?.issues ?? []).map((issue) => [issue.number, issue]),
+  );
+  for (const issue of updatedIssues) byNumber.set(issue.number, issue);
+  const issues = [...byNumber.values()].sort((a, b) => b.number - a.number);
+
+  if (complete || cachedCorpus) {
+    await writeJson(path, {
+      version: CORPUS_VERSION,
+      fetchedAt: complete ? fetchedAt : cachedCorpus!.fetchedAt,
+      issues,
+    } satisfies IssueCorpusFile);
+  }
+  return {
+    issues,
+    cached: cachedCorpus?.issues.length ?? 0,
+    updated: updatedIssues.length,
+  };
+};
+
+/**
+ * Applies the candidate filters of `getIssuesToCompare` to a cached corpus.
+ * The time filter compares against `updatedAt`, like the API's `since`. A
+ * search query can't be applied locally, those runs bypass the corpus.
+ */
+export const filterIssueCorpus = (
+  issues: Issue[],
+  {
+    issueNumber,
+    issueStateFilter,
+    timeFilter,
+    includePullRequests,
+    candidateFilters,
+  }: {
+    issueNumber?: number;
+    issueStateFilter: "all" | "open" | "closed";
+    timeFilter?: string;
+    includePullRequests: boolean;
+    candidateFilters?: CandidateFilters;
+  },
+): Issue[] =>
+  issues.filter(
+    (issue) =>
+      issue.number !== issueNumber &&
+      (issueStateFilter === "all" || issue.state === issueStateFilter) &&
+      (!timeFilter || new Date(issue.updatedAt) >= new Date(timeFilter)) &&
+      (includePullRequests || issue.kind === "issue") &&
+      (!candidateFilters || matchesCandidateFilters(issue, candidateFilters)),
+  );
+
+// Hashes everything that influences a verdict, so edits invalidate it
+export const verdictKey = (parts: string[]): string =>
+  createHash("sha256").update(parts.join("\0")).digest("hex");
+
+/**
+ * Creates an in-memory verdict cache. `get` returns the stored verdict (null
+ * for "not a duplicate") or undefined when the pair was never decided, and
+ * counts hits and misses.
+ */
+export const createVerdictCache = (
+  entries: Record<string, VerdictEntry> = {},
+  now: () => Date = () => new Date(),
+): VerdictCache & { entries: Record<string, VerdictEntry> } => {
+  let hits = 0;
+  let misses = 0;
+
+  return {
+    entries,
+    get stats() {
+      return { hits, misses };
+    },
+    get: (key) => {
+      const entry = entries[key];
+      if (!entry) {
+        misses += 1;
+        return undefined;
+      }
+      hits += 1;
+      entry.usedAt = now().toISOString();
+      return entry.verdict;
+    },
+    set: (key, verdict) => {
+      entries[key] = { verdict, usedAt: now().toISOString() };
+    },
+  };
+};
+
+export type FileVerdictCache = ReturnType<typeof createVerdictCache>;
+
+const verdictsPath = (cacheDir: string) => join(cacheDir, "verdicts.json");
+
+export const loadVerdictCache = async (cacheDir: string) =>
+  createVerdictCache(
+    (await readJson<Record<string, VerdictEntry>>(verdictsPath(cacheDir))) ??
+      {},
+  );
+
+export const saveVerdictCache = async (
+  cacheDir: string,
+  cache: FileVerdictCache,
+  now: number = Date.now(),
+) => {
+  const kept = Object.fromEntries(
+    Object.entries(cache.entries).filter(
+      ([, { usedAt }]) => now - new Date(usedAt).getTime() < VERDICT_TTL_MS,
+    ),
+  );
+  await writeJson(verdictsPath(cacheDir), kept);
+};
+
+export const formatHitRate = ({
+  hits,
+  misses,
+}: {
+  hits: number;
+  misses: number;
+}): string =>
+  hits + misses === 0
+    ? "n/a"
+    : `${Math.round((hits / (hits + misses)) * 100)}%`;
+
+/**
+ * Loads the cached issue corpus, refreshed with the issues updated since the
+ * last run, and the verdicts of earlier runs.
+ */
+export const openCache = async ({
+  octokit,
+  owner,
+  repo,
+  cacheDir,
+  summary,
+  log = console.log,
+}: {
+  octokit: InstanceType<typeof GitHub>;
+  owner: string;
+  repo: string;
+  cacheDir: string;
+  summary: RunSummary;
+  log?: LogFn;
+}): Promise<{ issues: Issue[]; verdictCache: FileVerdictCache }> => {
+  const { issues, cached, updated } = await refreshIssueCorpus({
+    octokit,
+    owner,
+    repo,
+    cacheDir,
+  });
+  log(
+    `Issue cache: ${cached} cached issue(s), ${updated} fetched as new or updated.`,
+  );
+  summary.addHeading("Cache");
+  summary.addRaw(`- Cached Issues: ${cached}\n`);
+  summary.addRaw(`- Issues Fetched as New or Updated: ${updated}\n`);
+  return { issues, verdictCache: await loadVerdictCache(cacheDir) };
+};
+
+export const saveCache = async (
+  cacheDir: string,
+  verdictCache: FileVerdictCache,
+  summary: RunSummary,
+  log: LogFn = console.log,
+) => {
+  await saveVerdictCache(cacheDir, verdictCache);
+  const { hits, misses } = verdictCache.stats;
+  log(`Verdict cache: ${hits} hit(s), ${misses} miss(es).`);
+  summary.addRaw(
+    `- Verdict Cache Hit Rate: ${formatHitRate(verdictCache.stats)} (${hits} hit(s), ${misses} miss(es))\n`,
+  );
+};
@@ -0,0 +1,987 @@
+import type { GitHub } from "@actions/github/lib/utils";
+import {
+  getIssuesToCompare,
+  getPullRequestsToCompare,
+  getPullRequestFiles,
+  createIssueComment,
+  upsertIssueComment,
+  addIssueLabels,
+  deleteIssueComment,
+  getIssue,
+  listIssueComments,
+  removeIssueLabel,
+  updateIssueComment,
+  listOrgRepos,
+  getDiscussionsToCompare,
+} from "./api";
+import {
+  buildBatchUserContent,
+  systemPromptMsg,
+  buildCurrentIssueSummary,
+  buildCommentBody,
+  buildFindingsMarker,
+  filterByLikelihood,
+  getLikelihoodLabels,
+  consolidateOutputs,
+  validateOutputs,
+  applyRanking,
+  buildRerankUserContent,
+  rerankPromptMsg,
+  withPromptAdditions,
+  pairKey,
+  selectAutoCloseTarget,
+  buildCloseNoticeBody,
+  CLOSE_NOTICE_MARKER,
+  parseCloseNotice,
+  formatCandidate,
+  selectComments,
+  findCandidate,
+  formatIssueRef,
+} from "./utils";
+import { verdictKey } from "./cache";
+import { inferBatchDuplicates } from "./ai";
+import { rankCandidates, formatScoreList } from "./lexical";
+import { findSignatureMatches } from "./fingerprint";
+import { createWorkerPool } from "./pool";
+import {
+  estimateTokens,
+  estimateBatchTokens,
+  truncateIssueBody,
+  batchByTokens,
+} from "./tokens";
+import type {
+  CandidateFilters,
+  CheckSettings,
+  CommentMode,
+  CommentTemplate,
+  Issue,
+  Likelihood,
+  LogFn,
+  ParsedOutput,
+  RunDuplicateCheckFn,
+  RunSummary,
+} from "./types";
+
+// Defaults shared by the action inputs and the CLI flags
+export const CHECK_DEFAULTS = {
+  provider: "azure",
+  maxRetries: 3,
+  concurrency: 1,
+  // Up to MAX_OUTPUT_ITEMS items, each with a reason and two evidence quotes
+  maxTokens: 2500,
+  batchSize: 10,
+  maxInputTokens: 8000,
+  maxIssueTokens: 1000,
+  maxCandidates: 100,
+  minLexicalScore: 0,
+  issueStateFilter: "open",
+  minLikelihood: "low",
+  maxResults: 10,
+  maxComments: 3,
+} as const;
+
+// Discards the report, e.g. for per-issue checks during a sweep
+export const silentSummary: RunSummary = {
+  addHeading: () => undefined,
+  addRaw: () => undefined,
+  addDetails: () => undefined,
+};
+
+export const verifyCheckConfig = <T extends CheckSettings>(config: T): T => {
+  const {
+    concurrency,
+    maxRetries,
+    batchSize,
+    maxInputTokens,
+    maxIssueTokens,
+    maxCandidates,
+    minLexicalScore,
+    maxComments,
+  } = config;
+
+  if (isNaN(concurrency) || concurrency < 1 || concurrency > 20) {
+    throw new Error("concurrency must be between 1 and 20");
+  }
+  if (isNaN(maxRetries) || maxRetries < 0) {
+    throw new Error("max_retries must be 0 or greater");
+  }
+  if (batchSize <= 0 || batchSize > 100) {
+    throw new Error("batch_size must be between 1 and 100");
+  }
+  if (isNaN(maxInputTokens) || maxInputTokens <= 0) {
+    throw new Error("max_input_tokens must be greater than 0");
+  }
+  if (isNaN(maxIssueTokens) || maxIssueTokens <= 0) {
+    throw new Error("max_issue_tokens must be greater than 0");
+  }
+  if (isNaN(maxCandidates) || maxCandidates < 0) {
+    throw new Error("max_candidates must be 0 (no limit) or greater");
+  }
+  if (isNaN(minLexicalScore) || minLexicalScore < 0 || minLexicalScore > 1) {
+    throw new Error("min_lexical_score must be between 0 and 1");
+  }
+  if (isNaN(maxComments) || maxComments < 0) {
+    throw new Error("max_comments must be 0 (disabled) or greater");
+  }
+  return config;
+};
+
+/**
+ * Fetches the candidates of the other repositories, tagged with their
+ * "owner/repo". `org:` entries expand to every repository of the organization
+ * except the checked one.
+ */
+const getCandidateRepoIssues = async ({
+  octokit,
+  owner,
+  repo,
+  candidateRepos,
+  issueStateFilter,
+  timeFilter,
+  includePullRequests,
+  candidateFilters,
+  log,
+}: {
+  octokit: InstanceType<typeof GitHub>;
+  owner: string;
+  repo: string;
+  candidateRepos: string[];
+  issueStateFilter: "all" | "open" | "closed";
+  timeFilter?: string;
+  includePullRequests: boolean;
+  candidateFilters: CandidateFilters;
+  log: LogFn;
+}): Promise<Issue[]> => {
+  const fullNames = new Set<string>();
+  for (const entry of candidateRepos) {
+    const names = entry.startsWith("org:")
+      ? await listOrgRepos({ octokit, org: entry.slice("org:".length) })
+      : [entry];
+    for (const name of names) fullNames.add(name);
+  }
+  fullNames.delete(`${owner}/${repo}`);
+
+  const issues: Issue[] = [];
+  for (const fullName of fullNames) {
+    const [candidateOwner, candidateRepo] = fullName.split("/");
+    const repoIssues = await getIssuesToCompare({
+      octokit,
+      owner: candidateOwner!,
+      repo: candidateRepo!,
+      issueStateFilter,
+      timeFilter,
+      includePullRequests,
+      filters: candidateFilters,
+    });
+    log(`Fetched ${repoIssues.length} issue(s) from ${fullName}.`);
+    issues.push(...repoIssues.map((issue) => ({ ...issue, repo: fullName })));
+  }
+  return issues;
+};
+
+// Fetches the selected comments of candidates that have any
+const attachComments = async ({
+  octokit,
+  owner,
+  repo,
+  candidates,
+  maxComments,
+  concurrency,
+}: {
+  octokit: InstanceType<typeof GitHub>;
+  owner: string;
+  repo: string;
+  candidates: Issue[];
+  maxComments: number;
+  concurrency: number;
+}): Promise<Issue[]> =>
+  createWorkerPool(concurrency).map(candidates, async (issue) => {
+    // Discussion comments aren't available through the issues API
+    if (issue.commentCount === 0 || issue.kind === "discussion") return issue;
+    const [issueOwner, issueRepo] = issue.repo?.split("/") ?? [owner, repo];
+    const comments = selectComments(
+      await listIssueComments({
+        octokit,
+        owner: issueOwner!,
+        repo: issueRepo!,
+        issueNumber: issue.number,
+      }),
+      maxComments,
+    );
+    return comments.length > 0 ? { ...issue, comments } : issue;
+  });
+
+/**
+ * Fetches the other open pull requests with their changed files. Files take a
+ * request per pull request, so with `maxCandidates` they are only fetched for
+ * the pull requests ranked closest by title and body; the ranking with files
+ * happens in the regular pre-ranking.
+ */
+const getPullRequestsWithFiles = async ({
+  octokit,
+  owner,
+  repo,
+  pullNumber,
+  title,
+  body,
+  filters,
+  maxCandidates,
+  concurrency,
+  log,
+}: {
+  octokit: InstanceType<typeof GitHub>;
+  owner: string;
+  repo: string;
+  pullNumber: number;
+  title: string;
+  body: string;
+  filters: CandidateFilters;
+  maxCandidates: number;
+  concurrency: number;
+  log: LogFn;
+}): Promise<Issue[]> => {
+  const pullRequests = await getPullRequestsToCompare({
+    octokit,
+    owner,
+    repo,
+    pullNumber,
+    filters,
+  });
+  const shortlist =
+    maxCandidates > 0
+      ? rankCandidates({
+          title,
+          body,
+          candidates: pullRequests,
+          maxCandidates,
+          minScore: 0,
+        }).kept.map(({ issue }) => issue)
+      : pullRequests;
+  log(
+    `Fetching changed files of ${shortlist.length} of ${pullRequests.length} open pull request(s)...`,
+  );
+  return createWorkerPool(concurrency).map(shortlist, async (pullRequest) => ({
+    ...pullRequest,
+    files: await getPullRequestFiles({
+      octokit,
+      owner,
+      repo,
+      pullNumber: pullRequest.number,
+    }),
+  }));
+};
+
+/**
+ * Finds likely duplicates of one issue: fetches the candidates, pre-ranks them
+ * lexically, runs the AI batches, validates and consolidates the replies and
+ * optionally reranks the findings. Nothing is written to GitHub; progress and
+ * stats go to `summary`.
+ */
+export const runDuplicateCheck: RunDuplicateCheckFn = async ({
+  octokit,
+  config,
+  candidates,
+  verdictCache,
+  suppressedPairs,
+  summary,
+  log = console.log,
+}) => {
+  const {
+    owner,
+    repo,
+    issueNumber,
+    issueTitle,
+    issueBody,
+    pullRequestMode,
+    provider,
+    endpoint,
+    aiToken,
+    modelName,
+    structuredOutput,
+    maxRetries,
+    failOnAiError,
+    concurrency,
+    maxTokens,
+    batchSize,
+    maxInputTokens,
+    maxIssueTokens,
+    maxCandidates,
+    minLexicalScore,
+    issueStateFilter,
+    includePullRequests,
+    timeFilter,
+    candidateFilters,
+    candidateRepos,
+    includeDiscussions,
+    minLikelihood,
+    rerank,
+    requireEvidence,
+    matchErrorSignatures,
+    maxComments,
+    promptAdditions,
+  } = config;
+  const systemPrompt = withPromptAdditions(systemPromptMsg, promptAdditions);
+
+  // -------- Fetch Issues for Comparison ----------------------------------------
+  summary.addHeading("Issues for Comparison Stats");
+  log(`Fetching issues...`);
+
+  const currentFiles = pullRequestMode
+    ? await getPullRequestFiles({
+        octokit,
+        owner,
+        repo,
+        pullNumber: issueNumber,
+      })
+    : undefined;
+
+  const repoIssues =
+    candidates ??
+    (pullRequestMode
+      ? await getPullRequestsWithFiles({
+          octokit,
+          owner,
+          repo,
+          pullNumber: issueNumber,
+          title: issueTitle,
+          body: issueBody,
+          filters: candidateFilters,
+          maxCandidates,
+          concurrency,
+          log,
+        })
+      : await getIssuesToCompare({
+          octokit,
+          owner,
+          repo,
+          issueNumber,
+          issueStateFilter,
+          timeFilter,
+          includePullRequests,
+          filters: candidateFilters,
+        }));
+  // Pull requests are only compared within their repository
+  const discussions =
+    includeDiscussions && !pullRequestMode
+      ? await getDiscussionsToCompare({
+          octokit,
+          owner,
+          repo,
+          discussionNumber: issueNumber,
+          issueStateFilter,
+          timeFilter,
+          filters: candidateFilters,
+        })
+      : [];
+  const fetchedIssues = repoIssues.concat(
+    discussions,
+    candidateRepos.length > 0 && !pullRequestMode
+      ? await getCandidateRepoIssues({
+          octokit,
+          owner,
+          repo,
+          candidateRepos,
+          issueStateFilter,
+          timeFilter,
+          includePullRequests,
+          candidateFilters,
+          log,
+        })
+      : [],
+  );
+
+  log(`Issues fetch complete.`);
+  summary.addRaw(`- Issues Found: ${fetchedIssues.length}\n`);
+  if (includeDiscussions && !pullRequestMode) {
+    summary.addRaw(`- Discussions Found: ${discussions.length}\n`);
+  }
+
+  // Exact matches need no model, so they are kept when inference fails
+  const signatureMatches = matchErrorSignatures
+    ? findSignatureMatches({
+        issueNumber,
+        title: issueTitle,
+        body: issueBody,
+        candidates: fetchedIssues,
+      }).filter((output) => !suppressedPairs?.has(pairKey(issueNumber, output)))
+    : [];
+  if (matchErrorSignatures) {
+    log(`Identical error signatures: ${signatureMatches.length}`);
+    summary.addRaw(
+      `- Identical Error Signatures: ${signatureMatches.length}\n`,
+    );
+  }
+
+  const noFindings = {
+    issuesToCompare: fetchedIssues,
+    findings: signatureMatches,
+    aiErrors: [],
+  };
+
+  if (fetchedIssues.length === 0) {
+    log("No issues found to compare.");
+    summary.addRaw(`- No issues found for comparison.\n`);
+    return { ...noFindings, failed: false };
+  }
+
+  // -------- Lexical Pre-Ranking -----------------------------------------------
+  summary.addHeading("Lexical Pre-Ranking");
+
+  const { kept, dropped } = rankCandidates({
+    title: issueTitle,
+    body: issueBody,
+    files: currentFiles,
+    candidates: fetchedIssues,
+    maxCandidates,
+    minScore: minLexicalScore,
+  });
+  const rankedIssues = kept.map(({ issue }) => issue);
+
+  log(
+    `Lexical pre-ranking kept ${kept.length} and dropped ${dropped.length} candidate(s).`,
+  );
+  summary.addRaw(`- Candidates Kept: ${kept.length}\n`);
+  summary.addRaw(`- Candidates Dropped: ${dropped.length}\n`);
+  summary.addDetails("Kept candidate scores", `\n\n${formatScoreList(kept)}`);
+  summary.addDetails(
+    "Dropped candidate scores",
+    `\n\n${formatScoreList(dropped)}`,
+  );
+
+  if (rankedIssues.length === 0) {
+    log("No candidates passed lexical pre-ranking.");
+    summary.addRaw(`- No candidates passed lexical pre-ranking.\n`);
+    return { ...noFindings, failed: false };
+  }
+
+  // Only the kept candidates are worth the extra requests
+  const candidateIssues =
+    maxComments > 0
+      ? await attachComments({
+          octokit,
+          owner,
+          repo,
+          candidates: rankedIssues,
+          maxComments,
+          concurrency,
+        })
+      : rankedIssues;
+  if (maxComments > 0) {
+    const commented = candidateIssues.filter(({ comments }) => comments);
+    log(`Fetched comments for ${commented.length} candidate(s).`);
+    summary.addRaw(`- Candidates with Comments: ${commented.length}\n`);
+  }
+  // The comment and the auto-close target see the fetched comments too
+  const issuesToCompare = fetchedIssues.map(
+    (issue) =>
+      findCandidate(candidateIssues, {
+        issue: issue.number,
+        repo: issue.repo,
+      }) ?? issue,
+  );
+
+  // -------- Batch Issues & AI Inference Loop -----------------------------------
+  summary.addHeading("AI Inference Stats");
+
+  // Long bodies (e.g. pasted logs) are shortened for the prompt only
+  const currentIssueSummary = buildCurrentIssueSummary(
+    issueNumber,
+    issueTitle,
+    truncateIssueBody(issueBody, maxIssueTokens),
+    currentFiles,
+  );
+  // Comments share one issue's budget on top of the body
+  const promptCandidates = candidateIssues.map(({ comments, ...issue }) => ({
+    ...issue,
+    body: truncateIssueBody(issue.body, maxIssueTokens),
+    ...(comments
+      ? {
+          comments: comments.map((comment) => ({
+            ...comment,
+            body: truncateIssueBody(
+              comment.body,
+              Math.ceil(maxIssueTokens / comments.length),
+            ),
+          })),
+        }
+      : {}),
+  }));
+
+  // The system prompt is sent as the system message and inside the user content
+  const overheadTokens =
+    estimateTokens(systemPrompt) * 2 + estimateTokens(currentIssueSummary) + 50;
+  const candidateTokenBudget = maxInputTokens - overheadTokens;
+  if (candidateTokenBudget <= 0) {
+    throw new Error(
+      `max_input_tokens (${maxInputTokens}) is too small for the prompt and current issue (~${overheadTokens} tokens)`,
+    );
+  }
+
+  // Pairs decided before with the same text, model and prompt skip inference
+  const getVerdictKey = (candidate: Issue) =>
+    verdictKey([
+      modelName,
+      systemPrompt,
+      String(requireEvidence),
+      currentIssueSummary,
+      formatCandidate(candidate),
+    ]);
+  const cachedOutputs: ParsedOutput[] = [];
+  const uncachedCandidates = promptCandidates.filter((candidate) => {
+    const verdict = verdictCache?.get(getVerdictKey(candidate));
+    if (verdict === undefined) return true;
+    if (verdict) cachedOutputs.push(verdict);
+    return false;
+  });
+  if (verdictCache) {
+    const cachedPairs = promptCandidates.length - uncachedCandidates.length;
+    log(
+      `Verdict cache: ${cachedPairs} of ${promptCandidates.length} candidate(s) already decided.`,
+    );
+    summary.addRaw(`- Cached Verdicts Used: ${cachedPairs}\n`);
+  }
+
+  const batches = batchByTokens(
+    uncachedCandidates,
+    candidateTokenBudget,
+    batchSize,
+  );
+
+  log(
+    `Processing ${batches.length} batch(es) of candidate issues (max batch size = ${batchSize}, max input tokens = ${maxInputTokens}, concurrency = ${concurrency}).`,
+  );
+  summary.addRaw(`- Total Batches: ${batches.length}\n`);
+  batches.forEach((batch, i) => {
+    summary.addRaw(
+      `- Batch ${i + 1}: ${batch.length} issue(s), ~${overheadTokens + estimateBatchTokens(batch)} estimated tokens\n`,
+    );
+  });
+
+  const pool = createWorkerPool(concurrency);
+  let quotaExhausted = false;
+
+  // Results come back in batch order regardless of completion order
+  const batchResults = await pool.map(batches, async (batch, i) => {
+    // Further requests would hit the same exhausted quota
+    if (quotaExhausted) return undefined;
+
+    const batchId = (i + 1) / batches.length;
+    const userContent = buildBatchUserContent(
+      currentIssueSummary,
+      batchId,
+      batch,
+      systemPrompt,
+    );
+
+    log(`User Content (batch ${i + 1}): `, userContent.slice(0, 200), "...");
+
+    const result = await inferBatchDuplicates({
+      provider,
+      token: aiToken,
+      content: userContent,
+      systemPromptMsg: systemPrompt,
+      endpoint,
+      maxTokens,
+      modelName,
+      structuredOutput,
+      maxRetries,
+      log,
+      onRetry: ({ status }) => {
+        if (status !== 429 || pool.limit === 1) return;
+        console.warn(
+          `Rate limited, reducing concurrency to ${pool.throttle()}.`,
+        );
+      },
+    });
+    if (result.error?.kind === "quota") quotaExhausted = true;
+    return result;
+  });
+
+  let parsedOutputs: ParsedOutput[] = cachedOutputs;
+  let repairedBatches = 0;
+  let droppedBatches = 0;
+  let skippedBatches = 0;
+  const aiErrors: string[] = [];
+  const rejectedOutputs: string[] = [];
+  const currentIssueText = buildCurrentIssueSummary(
+    issueNumber,
+    issueTitle,
+    issueBody,
+    currentFiles,
+  );
+
+  batchResults.forEach((result, i) => {
+    if (!result) {
+      skippedBatches += 1;
+      summary.addRaw(`- Batch ${i + 1}: Skipped after AI quota exhaustion\n`);
+      return;
+    }
+
+    const { status, outputs, error } = result;
+    switch (status) {
+      case "ok":
+        summary.addRaw(`- Batch ${i + 1}: AI response received\n`);
+        break;
+      case "repaired":
+        repairedBatches += 1;
+        summary.addRaw(`- Batch ${i + 1}: AI response repaired\n`);
+        break;
+      case "dropped":
+        droppedBatches += 1;
+        summary.addRaw(
+          `- Batch ${i + 1}: AI response dropped after repair, check logs for details\n`,
+        );
+        break;
+      case "no-response":
+        log(`No AI response for batch ${i + 1}.`);
+        summary.addRaw(`- Batch ${i + 1}: No AI response\n`);
+        break;
+      case "failed":
+        aiErrors.push(`Batch ${i + 1}: ${error?.message}`);
+        summary.addRaw(
+          `- Batch ${i + 1}: AI request failed (${error?.kind}): ${error?.message}\n`,
+        );
+        break;
+    }
+
+    // Validate against the full text of the issues sent in this batch
+    const { accepted, rejected } = validateOutputs(
+      outputs,
+      batches[i]!.map(
+        ({ number, repo }) =>
+          findCandidate(candidateIssues, { issue: number, repo })!,
+      ),
+      currentIssueText,
+      requireEvidence,
+    );
+    for (const { output, reason } of rejected) {
+      console.warn(
+        `Rejected AI output for ${formatIssueRef(output.issue, output.repo)} (${reason}):`,
+        output,
+      );
+      rejectedOutputs.push(
+        `- Batch ${i + 1}: ${formatIssueRef(output.issue, output.repo)} (${reason})`,
+      );
+    }
+    parsedOutputs = parsedOutputs.concat(accepted);
+
+    // Only complete answers are cached; candidates left out are not duplicates
+    if (verdictCache && (status === "ok" || status === "repaired")) {
+      for (const candidate of batches[i]!) {
+        verdictCache.set(
+          getVerdictKey(candidate),
+          accepted.find(
+            (output) => findCandidate([candidate], output) !== undefined,
+          ) ?? null,
+        );
+      }
+    }
+  });
+
+  if (skippedBatches > 0) {
+    console.warn(
+      `AI quota exhausted, skipped ${skippedBatches} remaining batch(es).`,
+    );
+    aiErrors.push(`${skippedBatches} batch(es) skipped after quota exhaustion`);
+  }
+  if (pool.limit < concurrency) {
+    summary.addRaw(
+      `- Concurrency reduced from ${concurrency} to ${pool.limit} after rate limiting.\n`,
+    );
+  }
+
+  if (aiErrors.length > 0) {
+    if (failOnAiError) {
+      summary.addRaw(`- AI errors occurred, failing the run.\n`);
+      return {
+        issuesToCompare,
+        findings: signatureMatches,
+        aiErrors,
+        failed: true,
+      };
+    }
+    summary.addRaw(
+      `- AI errors occurred, continuing with partial results (fail_on_ai_error: false).\n`,
+    );
+  }
+
+  // -------- Parse & Process AI Responses ---------------------------------------
+  summary.addHeading("Parse & Process AI Responses");
+  summary.addRaw(
+    `- Batches Needing Repair: ${repairedBatches + droppedBatches}\n`,
+  );
+  summary.addRaw(`- Batches Repaired: ${repairedBatches}\n`);
+  summary.addRaw(`- Batches Dropped: ${droppedBatches}\n`);
+
+  summary.addRaw(`- Rejected AI Entries: ${rejectedOutputs.length}\n`);
+  if (rejectedOutputs.length > 0) {
+    summary.addDetails(
+      "Rejected AI entries",
+      `\n\n${rejectedOutputs.join("\n")}\n`,
+    );
+  }
+
+  if (suppressedPairs && suppressedPairs.size > 0) {
+    const unsuppressed = parsedOutputs.filter(
+      (output) => !suppressedPairs.has(pairKey(issueNumber, output)),
+    );
+    summary.addRaw(
+      `- Suppressed by Maintainer Feedback: ${parsedOutputs.length - unsuppressed.length}\n`,
+    );
+    parsedOutputs = unsuppressed;
+  }
+
+  log(`Total parsed similar issues from AI: ${parsedOutputs.length}`);
+  summary.addRaw(
+    `- Total Parsed Similar Issues from AI: ${parsedOutputs.length}\n`,
+  );
+
+  // -------- Consolidate & Rerank ----------------------------------------------
+  summary.addHeading("Consolidation & Reranking");
+  // Signature matches come first, so their reason wins over an equal AI match
+  const consolidated = consolidateOutputs([
+    ...signatureMatches,
+    ...parsedOutputs,
+  ]);
+  log(`Unique similar issues after consolidation: ${consolidated.length}`);
+  summary.addRaw(`- Unique Similar Issues: ${consolidated.length}\n`);
+
+  // Only entries at or above min_likelihood count as findings, for both the
+  // comment and the labels
+  let findings = filterByLikelihood(consolidated, minLikelihood);
+  log(
+    `Similar issues at or above "${minLikelihood}" likelihood: ${findings.length}`,
+  );
+  summary.addRaw(
+    `- Similar Issues at or above "${minLikelihood}" Likelihood: ${findings.length}\n`,
+  );
+
+  if (findings.length === 0) {
+    log("No similar issues identified by AI.");
+    summary.addRaw(`- No similar issues identified by AI.\n`);
+    return { issuesToCompare, findings, aiErrors, failed: false };
+  }
+
+  if (rerank && findings.length > 1) {
+    // The shortlist is trimmed to the token budget, strongest matches first
+    const shortlist =
+      batchByTokens(
+        findings
+          .map((finding) => findCandidate(promptCandidates, finding))
+          .filter((issue) => issue !== undefined),
+        candidateTokenBudget,
+        100,
+      )[0] ?? [];
+
+    const { status, outputs } = await inferBatchDuplicates({
+      provider,
+      token: aiToken,
+      content: buildRerankUserContent(currentIssueSummary, shortlist),
+      systemPromptMsg: withPromptAdditions(rerankPromptMsg, promptAdditions),
+      endpoint,
+      maxTokens,
+      modelName,
+      structuredOutput,
+      maxRetries,
+      log,
+    });
+
+    if (status === "ok" || status === "repaired") {
+      findings = applyRanking(findings, outputs);
+      summary.addRaw(`- Reranked ${shortlist.length} shortlisted issue(s).\n`);
+    } else {
+      console.warn(`Reranking failed (${status}), keeping likelihood order.`);
+      summary.addRaw(
+        `- Reranking failed (${status}), results kept in likelihood order.\n`,
+      );
+    }
+  }
+
+  return { issuesToCompare, findings, aiErrors, failed: false };
+};
+
+/**
+ * Writes the findings of a duplicate check to the issue: the comment, the
+ * configured and likelihood labels, and (with `autoClose`) the auto-close
+ * notice for a clear duplicate. A pending close is retargeted when the clear
+ * duplicate changed and cancelled when there is none left.
+ */
+export const applyFindings = async ({
+  octokit,
+  owner,
+  repo,
+  issueNumber,
+  findings,
+  issuesToCompare,
+  commentMode,
+  maxResults,
+  commentTemplate,
+  labels,
+  likelihoodLabels,
+  autoClose,
+  summary,
+}: {
+  octokit: InstanceType<typeof GitHub>;
+  owner: string;
+  repo: string;
+  issueNumber: number;
+  findings: ParsedOutput[];
+  issuesToCompare: Issue[];
+  commentMode: CommentMode;
+  maxResults: number;
+  commentTemplate?: CommentTemplate;
+  labels: string[];
+  likelihoodLabels: Partial<Record<Likelihood, string[]>>;
+  autoClose?: { label: string; delayHours: number };
+  summary: RunSummary;
+}) => {
+  if (commentMode !== "none") {
+    console.log(`Posting comment (mode: ${commentMode})...`);
+    const commentParams = {
+      octokit,
+      owner,
+      repo,
+      issueNumber,
+      body: `${buildCommentBody(
+        findings,
+        issuesToCompare,
+        maxResults,
+        commentTemplate,
+      )}\n${buildFindingsMarker(findings)}`,
+    };
+    const commentSuccess =
+      commentMode === "upsert"
+        ? await upsertIssueComment(commentParams)
+        : await createIssueComment(commentParams);
+    if (commentSuccess) {
+      summary.addRaw(`- Comment posted successfully.\n`);
+    } else {
+      summary.addRaw(`- Failed to post comment.\n`);
+    }
+  }
+
+  // Matches in other repositories are only listed in the comment
+  const repoFindings = findings.filter(({ repo }) => !repo);
+  const labelsToAdd =
+    repoFindings.length > 0
+      ? [
+          ...new Set([
+            ...labels,
+            ...getLikelihoodLabels(repoFindings, likelihoodLabels),
+          ]),
+        ]
+      : [];
+  if (labelsToAdd.length > 0) {
+    const addLabelsSuccess = await addIssueLabels({
+      octokit,
+      owner,
+      repo,
+      issueNumber,
+      labels: labelsToAdd,
+    });
+    if (addLabelsSuccess) {
+      summary.addRaw(`- Labels added: ${labelsToAdd.join(", ")}\n`);
+    } else {
+      summary.addRaw(`- Failed to add labels: ${labelsToAdd.join(", ")}\n`);
+    }
+  }
+
+  // -------- Auto-Close Notice ---------------------------------------
+  if (!autoClose) return;
+  const closeTarget = selectAutoCloseTarget(findings, issuesToCompare);
+  if (!closeTarget) {
+    await cancelAutoClose({
+      octokit,
+      owner,
+      repo,
+      issueNumber,
+      label: autoClose.label,
+      summary,
+    });
+    return;
+  }
+
+  const existingNotice = (
+    await listIssueComments({ octokit, owner, repo, issueNumber })
+  ).find(({ body }) => body.includes(CLOSE_NOTICE_MARKER));
+  if (
+    parseCloseNotice(existingNotice?.body ?? "")?.duplicateOf ===
+    closeTarget.number
+  ) {
+    summary.addRaw(`- Auto-close notice already posted, not reposted.\n`);
+    return;
+  }
+
+  // A notice pointing at another issue gets the new target and grace period
+  const closeAfter = new Date(
+    Date.now() + autoClose.delayHours * 60 * 60 * 1000,
+  ).toISOString();
+  const body = buildCloseNoticeBody({
+    duplicateOf: closeTarget.number,
+    closeAfter,
+  });
+  const noticeSuccess = existingNotice
+    ? await updateIssueComment({
+        octokit,
+        owner,
+        repo,
+        commentId: existingNotice.id,
+        body,
+      })
+    : await createIssueComment({ octokit, owner, repo, issueNumber, body });
+  const labelSuccess = await addIssueLabels({
+    octokit,
+    owner,
+    repo,
+    issueNumber,
+    labels: [autoClose.label],
+  });
+  summary.addRaw(
+    noticeSuccess && labelSuccess
+      ? `- Auto-close scheduled as duplicate of #${closeTarget.number} after ${closeAfter}.\n`
+      : `- Failed to schedule auto-close as duplicate of #${closeTarget.number}.\n`,
+  );
+};
+
+/**
+ * Cancels the pending auto-close of an issue the latest check no longer
+ * considers a clear duplicate: the notice is deleted and the auto-close label
+ * removed. Issues without a notice are left alone, their label may have been
+ * added by hand.
+ */
+export const cancelAutoClose = async ({
+  octokit,
+  owner,
+  repo,
+  issueNumber,
+  label,
+  summary,
+}: {
+  octokit: InstanceType<typeof GitHub>;
+  owner: string;
+  repo: string;
+  issueNumber: number;
+  label: string;
+  summary: RunSummary;
+}) => {
+  const notice = (
+    await listIssueComments({ octokit, owner, repo, issueNumber })
+  ).find(({ body }) => body.includes(CLOSE_NOTICE_MARKER));
+  if (!notice) return;
+
+  const deleted = await deleteIssueComment({
+    octokit,
+    owner,
+    repo,
+    commentId: notice.id,
+  });
+  const issue = await getIssue({ octokit, owner, repo, issueNumber });
+  const unlabeled = issue?.labels?.includes(label)
+    ? await removeIssueLabel({ octokit, owner, repo, issueNumber, label })
+    : true;
+  summary.addRaw(
+    deleted && unlabeled
+      ? `- Pending auto-close cancelled, no clear duplicate found.\n`
+      : `- Failed to cancel the pending auto-close.\n`,
+  );
+};
@@ -0,0 +1,635 @@
+#!/usr/bin/env node
+import { readFileSync } from "node:fs";
+import { basename } from "node:path";
+import { parseArgs } from "node:util";
+import { getOctokit } from "@actions/github";
+import { GitHub } from "@actions/github/lib/utils";
+import { getIssue, upsertIssueComment } from "./api";
+import {
+  verifyIssueStateInput,
+  verifyCommentModeInput,
+  verifyLikelihoodInput,
+  verifyProviderInput,
+  parseLikelihoodLabels,
+  processDateInput,
+  parseCandidateFilters,
+  parseCandidateRepos,
+  buildCommentBody,
+  buildDuplicateMatches,
+} from "./utils";
+import { DEFAULT_ENDPOINTS } from "./providers";
+import { openCache, saveCache, filterIssueCorpus } from "./cache";
+import { loadFeedbackStore, getSuppressedPairs } from "./feedback";
+import { parseRepoConfig } from "./config";
+import {
+  buildEvalDataset,
+  loadEvalDataset,
+  writeEvalDataset,
+  runEval,
+  formatEvalReport,
+} from "./eval";
+import {
+  CHECK_DEFAULTS,
+  verifyCheckConfig,
+  runDuplicateCheck,
+  applyFindings,
+  silentSummary,
+} from "./check";
+import type {
+  CheckSettings,
+  CommentMode,
+  CommentTemplate,
+  EvalVariant,
+  Likelihood,
+  LogFn,
+  RepoConfig,
+  RunSummary,
+} from "./types";
+
+export const USAGE = `Usage: duplicate-identifier check --repo <owner/repo> --issue <number> --model <model> [options]
+
+Finds likely duplicates of an issue and prints them. Nothing is posted to
+GitHub unless --apply is passed.
+
+Options:
+  --repo <owner/repo>           Repository to check (required)
+  --issue <number>              Issue or pull request number (required)
+  --title <text>                Issue title (fetched from GitHub if omitted)
+  --body <text>                 Issue body (fetched from GitHub if omitted)
+  --pull-request                Compare a pull request against other open pull requests
+  --model <model>               Model identifier (required)
+  --provider <name>             azure | openai | anthropic | ollama (default: azure)
+  --endpoint <url>              Provider base URL (default: provider specific)
+  --token <token>               GitHub token (default: $GITHUB_TOKEN)
+  --ai-token <token>            Model provider API key (default: GitHub token for azure)
+  --format <format>             markdown | json (default: markdown)
+  --apply                       Post the comment and labels to the issue
+  --comment-mode <mode>         create | upsert | none, used with --apply (default: upsert)
+  --labels <labels>             Comma-separated labels to add with --apply
+  --likelihood-labels <map>     e.g. high:duplicate,medium:possible-duplicate
+  --min-likelihood <level>      high | medium | low (default: low)
+  --max-results <number>        Max matches listed in the comment (default: 10)
+  --issue-state-filter <state>  open | closed | all (default: open)
+  --include-pull-requests       Include pull requests as candidates
+  --include-discussions         Include the discussions of the repository as candidates
+  --time-filter <date>          Only compare issues updated since this ISO date
+  --include-labels <labels>     Only compare candidates with one of these comma-separated labels
+  --exclude-labels <labels>     Skip candidates with any of these labels, e.g. wontfix,spam
+  --exclude-authors <logins>    Skip candidates opened by these users, e.g. dependabot[bot]
+  --milestone <title>           Only compare candidates in this milestone ("none" or "*" for any)
+  --created-after <date>        Only compare issues created since this ISO date
+  --candidate-repos <repos>     Also compare issues of these owner/repo or org:<name> entries
+  --search-query <query>        Fetch candidates with this GitHub search query, e.g. "label:bug in:title"
+  --include-comments            Add the top comments of each candidate to the prompt
+  --max-comments <number>       Comments per candidate, maintainers first (default: 3)
+  --batch-size <number>         Max candidates per request (default: 10)
+  --concurrency <number>        Parallel requests, 1-20 (default: 1)
+  --max-tokens <number>         Max tokens per completion (default: 2500)
+  --max-retries <number>        Retries for retryable errors (default: 3)
+  --max-input-tokens <number>   Prompt budget per request (default: 8000)
+  --max-issue-tokens <number>   Per-issue body budget (default: 1000)
+  --max-candidates <number>     Lexically closest candidates kept, 0 = all (default: 100)
+  --min-lexical-score <number>  Min lexical similarity, 0-1 (default: 0)
+  --structured-output           Request JSON-schema constrained output
+  --rerank <true|false>         Rank the matches with a final model call (default: true)
+  --require-evidence <true|false>  Require verified evidence quotes (default: true)
+  --match-error-signatures <true|false>  Report identical stack traces & error codes as "high", messages as "medium" (default: true)
+  --fail-on-ai-error <true|false>  Exit with an error on AI failures (default: true)
+  --cache-dir <path>            Cache the issue corpus and model verdicts in this directory
+  --config <path>               Read settings from a local config file (same format as the action's)
+  --verbose                     Log progress to stderr
+  -h, --help                    Show this help
+
+Every option can also be set as an environment variable named
+DUPLICATE_IDENTIFIER_<OPTION>, e.g. DUPLICATE_IDENTIFIER_MODEL. Options set
+neither way fall back to the --config file.
+
+Usage: duplicate-identifier eval (--repo <owner/repo> | --dataset <file>) --model <models> [options]
+
+Replays issues closed as duplicates ("Duplicate of #N") through the check and
+reports precision, recall and likelihood calibration per model and prompt.
+Takes the model and candidate options of check, plus:
+  --model <models>              Comma-separated models to compare
+  --prompt <file>               Prompt additions compared with the plain prompt (repeatable)
+  --dataset <file>              Replay an exported dataset instead of fetching --repo
+  --export <file>               Write the dataset to a JSON fixture file
+  --cases <number>              Max issues closed as duplicates to collect (default: 50)
+  --pool-size <number>          Candidates per case, originals included (default: 30)`;
+
+const options = {
+  repo: { type: "string" },
+  issue: { type: "string" },
+  title: { type: "string" },
+  body: { type: "string" },
+  "pull-request": { type: "boolean" },
+  model: { type: "string" },
+  provider: { type: "string" },
+  endpoint: { type: "string" },
+  token: { type: "string" },
+  "ai-token": { type: "string" },
+  format: { type: "string" },
+  apply: { type: "boolean" },
+  "comment-mode": { type: "string" },
+  labels: { type: "string" },
+  "likelihood-labels": { type: "string" },
+  "min-likelihood": { type: "string" },
+  "max-results": { type: "string" },
+  "issue-state-filter": { type: "string" },
+  "include-pull-requests": { type: "boolean" },
+  "include-discussions": { type: "boolean" },
+  "time-filter": { type: "string" },
+  "include-labels": { type: "string" },
+  "exclude-labels": { type: "string" },
+  "exclude-authors": { type: "string" },
+  milestone: { type: "string" },
+  "created-after": { type: "string" },
+  "search-query": { type: "string" },
+  "candidate-repos": { type: "string" },
+  "include-comments": { type: "boolean" },
+  "max-comments": { type: "string" },
+  "batch-size": { type: "string" },
+  concurrency: { type: "string" },
+  "max-tokens": { type: "string" },
+  "max-retries": { type: "string" },
+  "max-input-tokens": { type: "string" },
+  "max-issue-tokens": { type: "string" },
+  "max-candidates": { type: "string" },
+  "min-lexical-score": { type: "string" },
+  "structured-output": { type: "boolean" },
+  rerank: { type: "string" },
+  "require-evidence": { type: "string" },
+  "match-error-signatures": { type: "string" },
+  "fail-on-ai-error": { type: "string" },
+  "cache-dir": { type: "string" },
+  config: { type: "string" },
+  dataset: { type: "string" },
+  export: { type: "string" },
+  cases: { type: "string" },
+  "pool-size": { type: "string" },
+  prompt: { type: "string", multiple: true },
+  verbose: { type: "boolean" },
+  help: { type: "boolean", short: "h" },
+} as const;
+
+type OptionName = keyof typeof options;
+
+export type OutputFormat = "markdown" | "json";
+
+export interface CliOptions {
+  verbose: boolean;
+  format: OutputFormat;
+  apply: boolean;
+  githubToken: string;
+  // Fetched from GitHub when not passed
+  issueTitle?: string;
+  issueBody?: string;
+  commentMode: CommentMode;
+  labels: string[];
+  likelihoodLabels: Partial<Record<Likelihood, string[]>>;
+  maxResults: number;
+  commentTemplate: CommentTemplate;
+  cacheDir?: string;
+  config: CheckSettings & { issueNumber: number };
+}
+
+export interface EvalOptions {
+  verbose: boolean;
+  format: OutputFormat;
+  githubToken?: string;
+  // Fetched from GitHub when no dataset file is given
+  datasetPath?: string;
+  exportPath?: string;
+  maxCases: number;
+  poolSize: number;
+  // Empty when the dataset is only exported
+  variants: EvalVariant[];
+  settings: CheckSettings;
+}
+
+const verifyFormatInput = (format: string): OutputFormat => {
+  const validFormats: OutputFormat[] = ["markdown", "json"];
+  if (validFormats.includes(format as OutputFormat)) {
+    return format as OutputFormat;
+  }
+  throw new Error(
+    `Invalid format: ${format}. Valid formats are: ${validFormats.join(", ")}`,
+  );
+};
+
+// Reads each option from the flags, then the DUPLICATE_IDENTIFIER_* variables, then the --config file
+const readOptions = (
+  argv: string[],
+  env: Record<string, string | undefined>,
+) => {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    options,
+    allowPositionals: true,
+  });
+
+  const getArg = (name: OptionName): string | undefined => {
+    const value = values[name];
+    if (value !== undefined) return String(value);
+    return env[`DUPLICATE_IDENTIFIER_${name.toUpperCase().replace(/-/g, "_")}`];
+  };
+  const configPath = getArg("config");
+  const repoConfig: RepoConfig = configPath
+    ? parseRepoConfig(readFileSync(configPath, "utf8"), configPath)
+    : { inputs: {}, commentTemplate: {} };
+  const get = (name: OptionName): string | undefined =>
+    getArg(name) ?? repoConfig.inputs[name.replace(/-/g, "_")];
+  const getFlag = (name: OptionName) => get(name) === "true";
+  const getNumber = (name: OptionName, fallback: number) =>
+    get(name) ? Number(get(name)) : fallback;
+
+  return {
+    values,
+    command: positionals[0],
+    repoConfig,
+    get,
+    getFlag,
+    getNumber,
+  };
+};
+
+const verifyCommand = (command: string | undefined, expected: string) => {
+  if (command !== expected) {
+    throw new Error(
+      command
+        ? `Unknown command: ${command}`
+        : "Missing command: check or eval",
+    );
+  }
+};
+
+// Settings shared by the check and eval commands
+const readCheckSettings = (
+  { get, getFlag, getNumber, repoConfig }: ReturnType<typeof readOptions>,
+  {
+    owner,
+    repo,
+    modelName,
+    githubToken,
+  }: { owner: string; repo: string; modelName: string; githubToken?: string },
+): CheckSettings => {
+  const provider = verifyProviderInput(
+    get("provider") ?? CHECK_DEFAULTS.provider,
+  );
+  const timeFilterInput = get("time-filter");
+
+  return {
+    owner,
+    repo,
+    pullRequestMode: getFlag("pull-request"),
+    provider,
+    endpoint: get("endpoint") ?? DEFAULT_ENDPOINTS[provider],
+    // GitHub Models accepts the GitHub token, other providers need their own key
+    aiToken:
+      get("ai-token") ?? (provider === "azure" ? (githubToken ?? "") : ""),
+    modelName,
+    structuredOutput: getFlag("structured-output"),
+    maxRetries: getNumber("max-retries", CHECK_DEFAULTS.maxRetries),
+    failOnAiError: get("fail-on-ai-error") !== "false",
+    concurrency: getNumber("concurrency", CHECK_DEFAULTS.concurrency),
+    maxTokens: getNumber("max-tokens", CHECK_DEFAULTS.maxTokens),
+    batchSize: getNumber("batch-size", CHECK_DEFAULTS.batchSize),
+    maxInputTokens: getNumber(
+      "max-input-tokens",
+      CHECK_DEFAULTS.maxInputTokens,
+    ),
+    maxIssueTokens: getNumber(
+      "max-issue-tokens",
+      CHECK_DEFAULTS.maxIssueTokens,
+    ),
+    maxCandidates: getNumber("max-candidates", CHECK_DEFAULTS.maxCandidates),
+    minLexicalScore: getNumber(
+      "min-lexical-score",
+      CHECK_DEFAULTS.minLexicalScore,
+    ),
+    issueStateFilter: verifyIssueStateInput(
+      get("issue-state-filter") ?? CHECK_DEFAULTS.issueStateFilter,
+    ),
+    includePullRequests: getFlag("include-pull-requests"),
+    timeFilter: timeFilterInput ? processDateInput(timeFilterInput) : undefined,
+    candidateFilters: parseCandidateFilters({
+      includeLabels: get("include-labels"),
+      excludeLabels: get("exclude-labels"),
+      excludeAuthors: get("exclude-authors"),
+      milestone: get("milestone"),
+      createdAfter: get("created-after"),
+      searchQuery: get("search-query"),
+    }),
+    candidateRepos: parseCandidateRepos(get("candidate-repos") ?? ""),
+    includeDiscussions: getFlag("include-discussions"),
+    minLikelihood: verifyLikelihoodInput(
+      get("min-likelihood") ?? CHECK_DEFAULTS.minLikelihood,
+    ),
+    rerank: get("rerank") !== "false",
+    requireEvidence: get("require-evidence") !== "false",
+    matchErrorSignatures: get("match-error-signatures") !== "false",
+    maxComments: getFlag("include-comments")
+      ? getNumber("max-comments", CHECK_DEFAULTS.maxComments)
+      : 0,
+    promptAdditions: repoConfig.promptAdditions,
+  };
+};
+
+/**
+ * Parses the `check` command line, or returns undefined when help was
+ * requested. Each flag falls back to the matching DUPLICATE_IDENTIFIER_*
+ * environment variable, then to the setting of the --config file, and the
+ * GitHub token to GITHUB_TOKEN.
+ */
+export const parseCliOptions = (
+  argv: string[],
+  env: Record<string, string | undefined> = process.env,
+): CliOptions | undefined => {
+  const reader = readOptions(argv, env);
+  const { values, command, repoConfig, get, getFlag, getNumber } = reader;
+  if (values.help) return undefined;
+  verifyCommand(command, "check");
+
+  const repoInput = get("repo") ?? "";
+  const [owner, repo] = repoInput.split("/");
+  const issueNumber = parseInt(get("issue") ?? "", 10);
+  const modelName = get("model");
+  const githubToken = get("token") ?? env.GITHUB_TOKEN;
+
+  if (!owner || !repo || !issueNumber || !modelName || !githubToken) {
+    throw new Error(
+      "Required options are not set: --repo <owner/repo>, --issue, --model and --token (or GITHUB_TOKEN)",
+    );
+  }
+
+  const labelsInput = get("labels");
+  const maxResults = getNumber("max-results", CHECK_DEFAULTS.maxResults);
+
+  if (isNaN(maxResults) || maxResults < 1) {
+    throw new Error("max_results must be 1 or greater");
+  }
+
+  return {
+    verbose: getFlag("verbose"),
+    format: verifyFormatInput(get("format") ?? "markdown"),
+    apply: getFlag("apply"),
+    githubToken,
+    issueTitle: get("title"),
+    issueBody: get("body"),
+    commentMode: verifyCommentModeInput(get("comment-mode") ?? "upsert"),
+    labels: labelsInput
+      ? labelsInput.split(",").map((label) => label.trim())
+      : [],
+    likelihoodLabels: parseLikelihoodLabels(get("likelihood-labels") ?? ""),
+    maxResults,
+    commentTemplate: repoConfig.commentTemplate,
+    cacheDir: get("cache-dir"),
+    config: {
+      ...readCheckSettings(reader, { owner, repo, modelName, githubToken }),
+      issueNumber,
+    },
+  };
+};
+
+/**
+ * Parses the `eval` command line, or returns undefined when help was
+ * requested. Every model is evaluated with the plain prompt and with each
+ * --prompt file appended to it.
+ */
+export const parseEvalOptions = (
+  argv: string[],
+  env: Record<string, string | undefined> = process.env,
+): EvalOptions | undefined => {
+  const reader = readOptions(argv, env);
+  const { values, command, repoConfig, get, getFlag, getNumber } = reader;
+  if (values.help) return undefined;
+  verifyCommand(command, "eval");
+
+  const datasetPath = get("dataset");
+  const exportPath = get("export");
+  const [owner = "", repo = ""] = (get("repo") ?? "").split("/");
+  const models = (get("model") ?? "")
+    .split(",")
+    .map((model) => model.trim())
+    .filter(Boolean);
+  const githubToken = get("token") ?? env.GITHUB_TOKEN;
+
+  if (!datasetPath && !(owner && repo && githubToken)) {
+    throw new Error(
+      "Required options are not set: --dataset <file>, or --repo <owner/repo> and --token (or GITHUB_TOKEN)",
+    );
+  }
+  if (models.length === 0 && !exportPath) {
+    throw new Error(
+      "Required options are not set: --model, or --export to only write the dataset",
+    );
+  }
+
+  const maxCases = getNumber("cases", 50);
+  const poolSize = getNumber("pool-size", 30);
+  if (isNaN(maxCases) || maxCases < 1) {
+    throw new Error("cases must be 1 or greater");
+  }
+  if (isNaN(poolSize) || poolSize < 1) {
+    throw new Error("pool_size must be 1 or greater");
+  }
+
+  // Prompt files only come from the flags; the config file has prompt_additions
+  const prompts = [
+    { name: "default", promptAdditions: repoConfig.promptAdditions },
+    ...(values.prompt ?? []).map((path) => ({
+      name: basename(path),
+      promptAdditions: readFileSync(path, "utf8"),
+    })),
+  ];
+
+  return {
+    verbose: getFlag("verbose"),
+    format: verifyFormatInput(get("format") ?? "markdown"),
+    githubToken,
+    datasetPath,
+    exportPath,
+    maxCases,
+    poolSize,
+    variants: models.flatMap((modelName) =>
+      prompts.map(({ name, promptAdditions }) => ({
+        name: name === "default" ? modelName : `${modelName} + ${name}`,
+        modelName,
+        promptAdditions,
+      })),
+    ),
+    settings: readCheckSettings(reader, {
+      owner,
+      repo,
+      modelName: models[0] ?? "",
+      githubToken,
+    }),
+  };
+};
+
+// The job summary report goes to stderr so stdout only carries the result
+const stderrSummary: RunSummary = {
+  addHeading: (text) => process.stderr.write(`\n## ${text}\n`),
+  addRaw: (text) => process.stderr.write(text),
+  addDetails: (label, content) => process.stderr.write(`${label}:${content}\n`),
+};
+
+const runCheck = async (argv: string[]) => {
+  const cli = parseCliOptions(argv);
+  if (!cli) {
+    console.log(USAGE);
+    return;
+  }
+
+  // Progress logs would otherwise mix with the result on stdout
+  const log: LogFn = cli.verbose ? console.error : () => undefined;
+  const summary = cli.verbose ? stderrSummary : silentSummary;
+
+  const { owner, repo, issueNumber } = cli.config;
+  const octokit = getOctokit(cli.githubToken);
+
+  let { issueTitle, issueBody } = cli;
+  if (issueTitle === undefined || issueBody === undefined) {
+    const issue = await getIssue({ octokit, owner, repo, issueNumber });
+    if (!issue) {
+      throw new Error(`Issue #${issueNumber} not found in ${owner}/${repo}`);
+    }
+    issueTitle ??= issue.title;
+    issueBody ??= issue.body;
+  }
+
+  const config = verifyCheckConfig({ ...cli.config, issueTitle, issueBody });
+  const { cacheDir } = cli;
+  const cache =
+    cacheDir && !config.pullRequestMode
+      ? await openCache({ octokit, owner, repo, cacheDir, summary, log })
+      : undefined;
+  // Feedback is only collected by the action, local runs just honor it
+  const suppressedPairs = cacheDir
+    ? getSuppressedPairs(await loadFeedbackStore(cacheDir, owner, repo))
+    : undefined;
+
+  const { issuesToCompare, findings, aiErrors, failed } =
+    await runDuplicateCheck({
+      octokit,
+      config,
+      candidates:
+        cache && !config.candidateFilters.searchQuery
+          ? filterIssueCorpus(cache.issues, config)
+          : undefined,
+      verdictCache: cache?.verdictCache,
+      suppressedPairs,
+      summary,
+      log,
+    });
+  if (cacheDir && cache)
+    await saveCache(cacheDir, cache.verdictCache, summary, log);
+
+  if (failed) {
+    throw new Error(`AI inference failed: ${aiErrors.join("; ")}`);
+  }
+
+  if (cli.format === "json") {
+    console.log(
+      JSON.stringify(buildDuplicateMatches(findings, issuesToCompare), null, 2),
+    );
+  } else {
+    console.log(
+      findings.length > 0
+        ? buildCommentBody(
+            findings,
+            issuesToCompare,
+            cli.maxResults,
+            cli.commentTemplate,
+          )
+        : "No similar issues found.",
+    );
+  }
+
+  if (!cli.apply) return;
+
+  if (findings.length === 0) {
+    // Same as the action: a comment from an earlier run is removed
+    if (cli.commentMode === "upsert") {
+      await upsertIssueComment({ octokit, owner, repo, issueNumber });
+    }
+    return;
+  }
+  await applyFindings({
+    octokit,
+    owner,
+    repo,
+    issueNumber,
+    findings,
+    issuesToCompare,
+    commentMode: cli.commentMode,
+    maxResults: cli.maxResults,
+    commentTemplate: cli.commentTemplate,
+    labels: cli.labels,
+    likelihoodLabels: cli.likelihoodLabels,
+    summary: stderrSummary,
+  });
+};
+
+const runEvalCommand = async (argv: string[]) => {
+  const cli = parseEvalOptions(argv);
+  if (!cli) {
+    console.log(USAGE);
+    return;
+  }
+
+  const log: LogFn = cli.verbose ? console.error : () => undefined;
+  const summary = cli.verbose ? stderrSummary : silentSummary;
+
+  // Replaying a dataset file needs no GitHub access
+  const octokit = cli.githubToken ? getOctokit(cli.githubToken) : new GitHub();
+  const { owner, repo } = cli.settings;
+  const dataset = cli.datasetPath
+    ? await loadEvalDataset(cli.datasetPath)
+    : await buildEvalDataset({
+        octokit,
+        owner,
+        repo,
+        maxCases: cli.maxCases,
+        poolSize: cli.poolSize,
+        log,
+      });
+  if (cli.exportPath) {
+    await writeEvalDataset(cli.exportPath, dataset);
+    console.error(
+      `Wrote ${dataset.cases.length} eval case(s) to ${cli.exportPath}.`,
+    );
+  }
+  if (cli.variants.length === 0) return;
+
+  const reports = await runEval({
+    octokit,
+    settings: verifyCheckConfig(cli.settings),
+    dataset,
+    variants: cli.variants,
+    summary,
+    log,
+  });
+  console.log(
+    cli.format === "json"
+      ? JSON.stringify(reports, null, 2)
+      : formatEvalReport(dataset, reports),
+  );
+};
+
+const run = async () => {
+  const argv = process.argv.slice(2);
+  const { positionals } = parseArgs({
+    args: argv,
+    options,
+    allowPositionals: true,
+  });
+  await (positionals[0] === "eval" ? runEvalCommand(argv) : runCheck(argv));
+};
+
+if (process.env.NODE_ENV !== "test") {
+  run().catch((error: unknown) => {
+    console.error(error instanceof Error ? error.message : error);
+    console.error("Run with --help for usage.");
+    process.exitCode = 1;
+  });
+}
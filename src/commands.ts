@@ -0,0 +1,284 @@
+import type { GitHub } from "@actions/github/lib/utils";
+import {
+  addIssueLabels,
+  closeIssueAsDuplicate,
+  createIssueComment,
+  deleteIssueComment,
+  getIssue,
+  listIssueComments,
+  removeIssueLabel,
+  updateIssueComment,
+} from "./api";
+import {
+  COMMENT_MARKER,
+  CLOSE_NOTICE_MARKER,
+  buildCommentBody,
+  buildFindingsMarker,
+  formatIssueRef,
+  getLikelihoodLabels,
+  pairKey,
+  parseCloseNotice,
+  parseFindingsMarker,
+  verifyIssueStateInput,
+} from "./utils";
+import type {
+  CommentTemplate,
+  Issue,
+  Likelihood,
+  RunSummary,
+  SlashCommand,
+} from "./types";
+
+export const COMMAND_USAGE = [
+  "- `/duplicates check [--state open|closed|all]`: check this issue again with its current text",
+  "- `/not-duplicate #N [#M ...]`: remove matches from the duplicate comment and stop suggesting them",
+  "- `/duplicate-of #N`: label this issue as a duplicate of #N and close it",
+].join("\n");
+
+const COMMAND_PATTERN =
+  /^[ \t]*\/(duplicates|not-duplicate|duplicate-of)\b(.*)$/m;
+
+// #N, or owner/repo#N for matches in other repositories
+const REF_PATTERN = /^(?:([\w.-]+\/[\w.-]+))?#(\d+)$/;
+
+const parseRef = (token: string): { issue: number; repo?: string } => {
+  const match = REF_PATTERN.exec(token);
+  if (!match) {
+    throw new Error(`Invalid issue reference: ${token}. Expected #N`);
+  }
+  const [, repo, number] = match;
+  return { issue: parseInt(number!, 10), ...(repo ? { repo } : {}) };
+};
+
+/**
+ * Reads the first command of a comment: a line starting with one of the
+ * commands in COMMAND_USAGE. Returns undefined for comments without a
+ * command and throws for malformed ones.
+ */
+export const parseSlashCommand = (body: string): SlashCommand | undefined => {
+  const match = COMMAND_PATTERN.exec(body);
+  if (!match) return undefined;
+  const [, name, rest] = match;
+  const args = rest!.split(/[\s,]+/).filter(Boolean);
+
+  if (name === "duplicates") {
+    const [subcommand, ...flags] = args;
+    if (subcommand !== "check") {
+      throw new Error(
+        `Unknown command: /duplicates ${subcommand ?? ""}`.trimEnd(),
+      );
+    }
+    let issueStateFilter: "all" | "open" | "closed" | undefined;
+    for (let i = 0; i < flags.length; i++) {
+      const [flag, inlineValue] = flags[i]!.split("=", 2);
+      if (flag !== "--state") {
+        throw new Error(`Unknown option for /duplicates check: ${flag}`);
+      }
+      const value = inlineValue ?? flags[++i];
+      if (!value) throw new Error("--state needs a value");
+      issueStateFilter = verifyIssueStateInput(value);
+    }
+    return issueStateFilter
+      ? { name: "check", issueStateFilter }
+      : { name: "check" };
+  }
+
+  if (name === "not-duplicate") {
+    if (args.length === 0) {
+      throw new Error("/not-duplicate needs at least one issue, e.g. #42");
+    }
+    return { name: "not-duplicate", candidates: args.map(parseRef) };
+  }
+
+  if (args.length !== 1) {
+    throw new Error("/duplicate-of needs exactly one issue, e.g. #42");
+  }
+  const { issue, repo } = parseRef(args[0]!);
+  if (repo) {
+    throw new Error("/duplicate-of only accepts issues of this repository");
+  }
+  return { name: "duplicate-of", issue };
+};
+
+/**
+ * Removes matches from the duplicate comment, rebuilt from the findings it
+ * lists (the comment is deleted when none remain). Labels that no longer
+ * follow from the remaining matches are removed, and so is the auto-close
+ * label when the pending close points at a dismissed issue. Returns false
+ * when the comment couldn't be updated.
+ */
+export const dismissMatches = async ({
+  octokit,
+  owner,
+  repo,
+  issueNumber,
+  candidates,
+  maxResults,
+  commentTemplate,
+  labels,
+  likelihoodLabels,
+  autoCloseLabel,
+  summary,
+}: {
+  octokit: InstanceType<typeof GitHub>;
+  owner: string;
+  repo: string;
+  issueNumber: number;
+  candidates: { issue: number; repo?: string }[];
+  maxResults: number;
+  commentTemplate?: CommentTemplate;
+  labels: string[];
+  likelihoodLabels: Partial<Record<Likelihood, string[]>>;
+  autoCloseLabel: string;
+  summary: RunSummary;
+}): Promise<boolean> => {
+  const dismissed = new Set(
+    candidates.map((candidate) => pairKey(issueNumber, candidate)),
+  );
+  const comments = await listIssueComments({
+    octokit,
+    owner,
+    repo,
+    issueNumber,
+  });
+  // The comment upserts update, the first one with the marker
+  const comment = comments.find(({ body }) => body.includes(COMMENT_MARKER));
+  const findings = comment && parseFindingsMarker(comment.body);
+  if (!comment || !findings) {
+    summary.addRaw(`- No duplicate comment with matches to update.\n`);
+    return false;
+  }
+
+  const remaining = findings.filter(
+    (finding) => !dismissed.has(pairKey(issueNumber, finding)),
+  );
+  let updated: boolean;
+  if (remaining.length === 0) {
+    updated = await deleteIssueComment({
+      octokit,
+      owner,
+      repo,
+      commentId: comment.id,
+    });
+  } else {
+    // Candidates are fetched again for their current title and state
+    const shown: Issue[] = [];
+    for (const finding of remaining.slice(0, maxResults)) {
+      const [candidateOwner, candidateRepo] = finding.repo
+        ? (finding.repo.split("/") as [string, string])
+        : [owner, repo];
+      const issue = await getIssue({
+        octokit,
+        owner: candidateOwner,
+        repo: candidateRepo,
+        issueNumber: finding.issue,
+      });
+      if (issue) {
+        shown.push(finding.repo ? { ...issue, repo: finding.repo } : issue);
+      }
+    }
+    updated = await updateIssueComment({
+      octokit,
+      owner,
+      repo,
+      commentId: comment.id,
+      body: `${buildCommentBody(remaining, shown, maxResults, commentTemplate)}\n${buildFindingsMarker(remaining)}`,
+    });
+  }
+  summary.addRaw(
+    updated
+      ? `- Duplicate comment ${remaining.length === 0 ? "deleted" : `updated, ${remaining.length} match(es) left`}.\n`
+      : `- Failed to update the duplicate comment.\n`,
+  );
+
+  const issue = await getIssue({ octokit, owner, repo, issueNumber });
+  const remainingInRepo = remaining.filter(({ repo }) => !repo);
+  const expectedLabels = new Set(
+    remainingInRepo.length > 0
+      ? [...labels, ...getLikelihoodLabels(remainingInRepo, likelihoodLabels)]
+      : [],
+  );
+  const noticeComment = comments.find(({ body }) =>
+    body.includes(CLOSE_NOTICE_MARKER),
+  );
+  const notice = noticeComment && parseCloseNotice(noticeComment.body);
+  const staleLabels = [
+    ...new Set([
+      ...labels,
+      ...Object.values(likelihoodLabels).flat(),
+      ...(notice &&
+      dismissed.has(pairKey(issueNumber, { issue: notice.duplicateOf }))
+        ? [autoCloseLabel]
+        : []),
+    ]),
+  ].filter(
+    (label) => !expectedLabels.has(label) && issue?.labels?.includes(label),
+  );
+  for (const label of staleLabels) {
+    await removeIssueLabel({ octokit, owner, repo, issueNumber, label });
+  }
+  if (staleLabels.length > 0) {
+    summary.addRaw(`- Labels removed: ${staleLabels.join(", ")}\n`);
+  }
+  return updated;
+};
+
+/**
+ * Closes the issue as a duplicate right away. The "Duplicate of #N" comment
+ * is the one GitHub writes from the UI, so the close counts as feedback.
+ */
+export const markDuplicateOf = async ({
+  octokit,
+  owner,
+  repo,
+  issueNumber,
+  duplicateOf,
+  label,
+  summary,
+}: {
+  octokit: InstanceType<typeof GitHub>;
+  owner: string;
+  repo: string;
+  issueNumber: number;
+  duplicateOf: number;
+  label: string;
+  summary: RunSummary;
+}): Promise<boolean> => {
+  const original =
+    duplicateOf !== issueNumber
+      ? await getIssue({ octokit, owner, repo, issueNumber: duplicateOf })
+      : undefined;
+  if (!original) {
+    summary.addRaw(
+      `- ${formatIssueRef(duplicateOf)} is not another issue of this repository.\n`,
+    );
+    return false;
+  }
+
+  const commented = await createIssueComment({
+    octokit,
+    owner,
+    repo,
+    issueNumber,
+    body: `Duplicate of #${duplicateOf}`,
+  });
+  const labeled = await addIssueLabels({
+    octokit,
+    owner,
+    repo,
+    issueNumber,
+    labels: [label],
+  });
+  const closed = await closeIssueAsDuplicate({
+    octokit,
+    owner,
+    repo,
+    issueNumber,
+  });
+  summary.addRaw(
+    closed
+      ? `- Closed as duplicate of #${duplicateOf}.\n`
+      : `- Failed to close as duplicate of #${duplicateOf}.\n`,
+  );
+  return commented && labeled && closed;
+};
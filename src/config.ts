@@ -0,0 +1,197 @@
+import { load } from "js-yaml";
+import type { GitHub } from "@actions/github/lib/utils";
+import { getRepoFile } from "./api";
+import { COMMENT_PLACEHOLDERS, listPlaceholders } from "./utils";
+import type { CommentTemplate, RepoConfig } from "./types";
+
+export const DEFAULT_CONFIG_PATH = ".github/duplicate-identifier.yml";
+
+// Action inputs that may be set in the config file. Secrets and the
+// per-event issue inputs stay in the workflow.
+export const CONFIG_INPUTS = [
+  "auto_close",
+  "auto_close_delay_hours",
+  "auto_close_label",
+  "batch_size",
+  "cache_dir",
+  "candidate_repos",
+  "command_permission",
+  "comment_mode",
+  "concurrency",
+  "created_after",
+  "endpoint",
+  "exclude_authors",
+  "exclude_labels",
+  "fail_on_ai_error",
+  "include_comments",
+  "include_discussions",
+  "include_labels",
+  "include_pull_requests",
+  "issue_state_filter",
+  "labels",
+  "likelihood_labels",
+  "match_error_signatures",
+  "max_candidates",
+  "max_comments",
+  "max_input_tokens",
+  "max_issue_tokens",
+  "max_results",
+  "max_retries",
+  "max_tokens",
+  "milestone",
+  "min_likelihood",
+  "min_lexical_score",
+  "mode",
+  "model",
+  "post_comment",
+  "provider",
+  "require_evidence",
+  "rerank",
+  "search_query",
+  "structured_output",
+  "sweep_report_path",
+  "sweep_sample_size",
+  "sweep_tracking_issue",
+  "sweep_tracking_title",
+  "time_filter",
+];
+
+const WORKFLOW_ONLY_INPUTS = [
+  "token",
+  "ai_token",
+  "config_path",
+  "issue_number",
+  "issue_title",
+  "issue_body",
+  "owner",
+  "repo_name",
+];
+
+// Keys without an action input
+const TEMPLATE_KEYS = {
+  comment_header: "header",
+  comment_template: "item",
+  comment_footer: "footer",
+} as const;
+
+const CONFIG_ONLY_KEYS = ["prompt_additions", ...Object.keys(TEMPLATE_KEYS)];
+
+const isScalar = (value: unknown): value is string | number | boolean =>
+  ["string", "number", "boolean"].includes(typeof value);
+
+/**
+ * Converts a config value to the string an action input would hold: lists
+ * are joined with commas, and a mapping (e.g. likelihood_labels) becomes
+ * key:value pairs. Returns undefined for unsupported values.
+ */
+const toInputValue = (value: unknown): string | undefined => {
+  if (isScalar(value)) return String(value);
+  if (Array.isArray(value)) {
+    return value.every(isScalar) ? value.join(",") : undefined;
+  }
+  if (typeof value === "object" && value !== null) {
+    const pairs: string[] = [];
+    for (const [key, entry] of Object.entries(value)) {
+      const entries = Array.isArray(entry) ? entry : [entry];
+      if (!entries.every(isScalar)) return undefined;
+      pairs.push(...entries.map((item) => `${key}:${item}`));
+    }
+    return pairs.join(",");
+  }
+  return undefined;
+};
+
+/**
+ * Parses and validates the repository config file. Every problem throws with
+ * the path, the offending key and what is accepted instead.
+ */
+export const parseRepoConfig = (content: string, path: string): RepoConfig => {
+  const invalid = (message: string) =>
+    new Error(`Invalid config file ${path}: ${message}`);
+
+  let data: unknown;
+  try {
+    data = load(content);
+  } catch (error) {
+    throw invalid((error as Error).message);
+  }
+
+  const config: RepoConfig = { inputs: {}, commentTemplate: {} };
+  // An empty file (or only comments) configures nothing
+  if (data === undefined || data === null) return config;
+  if (typeof data !== "object" || Array.isArray(data)) {
+    throw invalid("expected a mapping of settings at the top level");
+  }
+
+  for (const [key, value] of Object.entries(data)) {
+    if (value === null) continue;
+
+    if (WORKFLOW_ONLY_INPUTS.includes(key)) {
+      throw invalid(
+        `"${key}" can only be set as an action input in the workflow`,
+      );
+    }
+
+    if (CONFIG_ONLY_KEYS.includes(key)) {
+      if (typeof value !== "string") throw invalid(`"${key}" must be a string`);
+      if (key === "prompt_additions") {
+        config.promptAdditions = value;
+        continue;
+      }
+      const unknown = listPlaceholders(value).filter(
+        (name) => !(COMMENT_PLACEHOLDERS as readonly string[]).includes(name),
+      );
+      if (unknown.length > 0) {
+        throw invalid(
+          `unknown placeholder {{${unknown[0]}}} in "${key}". Valid placeholders are: ${COMMENT_PLACEHOLDERS.join(", ")}`,
+        );
+      }
+      const part: keyof CommentTemplate =
+        TEMPLATE_KEYS[key as keyof typeof TEMPLATE_KEYS];
+      config.commentTemplate[part] = value;
+      continue;
+    }
+
+    if (!CONFIG_INPUTS.includes(key)) {
+      throw invalid(
+        `unknown key "${key}". Valid keys are: ${[...CONFIG_INPUTS, ...CONFIG_ONLY_KEYS].join(", ")}`,
+      );
+    }
+    const inputValue = toInputValue(value);
+    if (inputValue === undefined) {
+      throw invalid(
+        `"${key}" must be a string, number, boolean, list or mapping of those`,
+      );
+    }
+    config.inputs[key] = inputValue;
+  }
+
+  return config;
+};
+
+/**
+ * Reads the config file from the default branch of the repository. A missing
+ * file yields an empty config.
+ */
+export const loadRepoConfig = async ({
+  octokit,
+  owner,
+  repo,
+  path,
+}: {
+  octokit: InstanceType<typeof GitHub>;
+  owner: string;
+  repo: string;
+  path: string;
+}): Promise<RepoConfig> => {
+  const content = await getRepoFile({ octokit, owner, repo, path });
+  if (content === undefined) {
+    console.log(`No config file found at ${path}, using the action inputs.`);
+    return { inputs: {}, commentTemplate: {} };
+  }
+  const config = parseRepoConfig(content, path);
+  console.log(
+    `Loaded ${Object.keys(config.inputs).length} setting(s) from ${path}.`,
+  );
+  return config;
+};
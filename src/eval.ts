@@ -0,0 +1,302 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import type { GitHub } from "@actions/github/lib/utils";
+import { getIssuesToCompare, listIssueComments } from "./api";
+import { runDuplicateCheck, silentSummary } from "./check";
+import { rankCandidates } from "./lexical";
+import {
+  formatRatio,
+  likelihoodRank,
+  normalizeLikelihood,
+  parseDuplicateOf,
+} from "./utils";
+import type {
+  CheckSettings,
+  EvalCase,
+  EvalDataset,
+  EvalMetrics,
+  EvalReport,
+  EvalVariant,
+  Likelihood,
+  LogFn,
+  ParsedOutput,
+  RunSummary,
+} from "./types";
+
+// Bumped when the fixture format changes
+export const EVAL_DATASET_VERSION = 1;
+
+/**
+ * Builds eval cases from the issues closed as duplicates, newest first. Each
+ * case keeps the `poolSize` lexically closest issues opened before it, plus
+ * the originals even when they rank lower, so the model is measured rather
+ * than the pre-ranking. Other issues closed as duplicates are no candidates,
+ * like with the default `issue_state_filter`.
+ */
+export const buildEvalDataset = async ({
+  octokit,
+  owner,
+  repo,
+  maxCases,
+  poolSize,
+  log = console.log,
+}: {
+  octokit: InstanceType<typeof GitHub>;
+  owner: string;
+  repo: string;
+  maxCases: number;
+  poolSize: number;
+  log?: LogFn;
+}): Promise<EvalDataset> => {
+  const corpus = await getIssuesToCompare({
+    octokit,
+    owner,
+    repo,
+    issueStateFilter: "all",
+    includePullRequests: false,
+  });
+  const byNumber = new Map(corpus.map((issue) => [issue.number, issue]));
+  const closedAsDuplicate = corpus
+    .filter(({ stateReason }) => stateReason === "duplicate")
+    .sort((a, b) => b.number - a.number);
+  log(
+    `Found ${closedAsDuplicate.length} issue(s) closed as duplicate among ${corpus.length}.`,
+  );
+
+  const cases: EvalCase[] = [];
+  for (const issue of closedAsDuplicate) {
+    if (cases.length >= maxCases) break;
+
+    const comments = await listIssueComments({
+      octokit,
+      owner,
+      repo,
+      issueNumber: issue.number,
+    });
+    const duplicateOf = [
+      ...new Set(comments.flatMap(({ body }) => parseDuplicateOf(body))),
+    ].filter((number) => number !== issue.number && byNumber.has(number));
+    if (duplicateOf.length === 0) continue;
+
+    const pool = corpus.filter(
+      (candidate) =>
+        candidate.number !== issue.number &&
+        !duplicateOf.includes(candidate.number) &&
+        candidate.stateReason !== "duplicate" &&
+        candidate.createdAt < issue.createdAt,
+    );
+    const { kept } = rankCandidates({
+      title: issue.title,
+      body: issue.body,
+      candidates: pool,
+      maxCandidates: Math.max(0, poolSize - duplicateOf.length),
+      minScore: 0,
+    });
+    cases.push({
+      issue,
+      duplicateOf,
+      candidates: [
+        ...duplicateOf.map((number) => byNumber.get(number)!),
+        ...kept.map(({ issue: candidate }) => candidate),
+      ].sort((a, b) => b.number - a.number),
+    });
+  }
+  log(`Built ${cases.length} eval case(s).`);
+
+  return {
+    version: EVAL_DATASET_VERSION,
+    repo: `${owner}/${repo}`,
+    createdAt: new Date().toISOString(),
+    cases,
+  };
+};
+
+export const writeEvalDataset = async (path: string, dataset: EvalDataset) => {
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, `${JSON.stringify(dataset, null, 2)}\n`);
+};
+
+export const loadEvalDataset = async (path: string): Promise<EvalDataset> => {
+  const dataset = JSON.parse(await readFile(path, "utf8")) as EvalDataset;
+  if (dataset?.version !== EVAL_DATASET_VERSION) {
+    throw new Error(
+      `Invalid eval dataset ${path}: expected version ${EVAL_DATASET_VERSION}, got ${dataset?.version}`,
+    );
+  }
+  if (!Array.isArray(dataset.cases) || !/^[^/]+\/[^/]+$/.test(dataset.repo)) {
+    throw new Error(
+      `Invalid eval dataset ${path}: expected "repo" and "cases"`,
+    );
+  }
+  return dataset;
+};
+
+const emptyMetrics = (): EvalMetrics => ({
+  cases: 0,
+  failedCases: 0,
+  truePositives: 0,
+  falsePositives: 0,
+  falseNegatives: 0,
+  precision: null,
+  recall: null,
+  calibration: {
+    high: { predicted: 0, correct: 0 },
+    medium: { predicted: 0, correct: 0 },
+    low: { predicted: 0, correct: 0 },
+  },
+});
+
+const ratio = (part: number, total: number): number | null =>
+  total === 0 ? null : part / total;
+
+/**
+ * Adds the findings of one case to the metrics. Matches in other
+ * repositories can't be part of the ground truth and are ignored.
+ */
+export const scoreEvalCase = (
+  metrics: EvalMetrics,
+  findings: ParsedOutput[],
+  duplicateOf: number[],
+): EvalMetrics => {
+  const predicted = findings.filter(({ repo }) => !repo);
+  const calibration = { ...metrics.calibration };
+  let truePositives = 0;
+  for (const { issue, likelihood } of predicted) {
+    const level = normalizeLikelihood(likelihood);
+    const correct = duplicateOf.includes(issue);
+    if (correct) truePositives += 1;
+    calibration[level] = {
+      predicted: calibration[level].predicted + 1,
+      correct: calibration[level].correct + (correct ? 1 : 0),
+    };
+  }
+
+  const totals = {
+    truePositives: metrics.truePositives + truePositives,
+    falsePositives: metrics.falsePositives + predicted.length - truePositives,
+    falseNegatives: metrics.falseNegatives + duplicateOf.length - truePositives,
+  };
+  return {
+    ...metrics,
+    ...totals,
+    cases: metrics.cases + 1,
+    precision: ratio(
+      totals.truePositives,
+      totals.truePositives + totals.falsePositives,
+    ),
+    recall: ratio(
+      totals.truePositives,
+      totals.truePositives + totals.falseNegatives,
+    ),
+    calibration,
+  };
+};
+
+/**
+ * Replays every case through the regular duplicate check once per variant.
+ * All likelihoods count as predictions, so calibration covers "low" too.
+ * Nothing is fetched from GitHub: candidates come from the dataset and
+ * comments, discussions and other repositories are left out. Signature
+ * matches and reranking are off so the scores are the model's own.
+ */
+export const runEval = async ({
+  octokit,
+  settings,
+  dataset,
+  variants,
+  summary = silentSummary,
+  log = console.log,
+}: {
+  octokit: InstanceType<typeof GitHub>;
+  settings: CheckSettings;
+  dataset: EvalDataset;
+  variants: EvalVariant[];
+  summary?: RunSummary;
+  log?: LogFn;
+}): Promise<EvalReport[]> => {
+  const [owner, repo] = dataset.repo.split("/") as [string, string];
+  const reports: EvalReport[] = [];
+
+  for (const variant of variants) {
+    let metrics = emptyMetrics();
+    for (const [
+      i,
+      { issue, duplicateOf, candidates },
+    ] of dataset.cases.entries()) {
+      const { findings, failed } = await runDuplicateCheck({
+        octokit,
+        config: {
+          ...settings,
+          owner,
+          repo,
+          pullRequestMode: false,
+          includeDiscussions: false,
+          candidateRepos: [],
+          maxComments: 0,
+          minLikelihood: "low",
+          matchErrorSignatures: false,
+          rerank: false,
+          modelName: variant.modelName,
+          promptAdditions: variant.promptAdditions,
+          issueNumber: issue.number,
+          issueTitle: issue.title,
+          issueBody: issue.body,
+        },
+        candidates,
+        summary: silentSummary,
+        log,
+      });
+      log(
+        `Eval ${variant.name}: #${issue.number} has ${findings.length} match(es) (${i + 1}/${dataset.cases.length}).`,
+      );
+      metrics = failed
+        ? {
+            ...metrics,
+            cases: metrics.cases + 1,
+            failedCases: metrics.failedCases + 1,
+          }
+        : scoreEvalCase(metrics, findings, duplicateOf);
+    }
+    summary.addRaw(
+      `- ${variant.name}: precision ${formatRatio(metrics.precision)}, recall ${formatRatio(metrics.recall)}\n`,
+    );
+    reports.push({ variant, metrics });
+  }
+
+  return reports;
+};
+
+const LEVELS = (Object.keys(likelihoodRank) as Likelihood[]).sort(
+  (a, b) => likelihoodRank[b] - likelihoodRank[a],
+);
+
+/**
+ * Markdown table with one row per variant. A calibrated model is right more
+ * often at "high" than at "medium" and "low".
+ */
+export const formatEvalReport = (
+  dataset: EvalDataset,
+  reports: EvalReport[],
+): string => {
+  const rows = reports.map(({ variant, metrics }) =>
+    [
+      variant.name,
+      `${metrics.cases - metrics.failedCases}/${metrics.cases}`,
+      formatRatio(metrics.precision),
+      formatRatio(metrics.recall),
+      ...LEVELS.map((level) => {
+        const { predicted, correct } = metrics.calibration[level];
+        return `${correct}/${predicted} (${formatRatio(ratio(correct, predicted))})`;
+      }),
+    ].join(" | "),
+  );
+
+  return [
+    `## Duplicate detection eval: ${dataset.repo}`,
+    `${dataset.cases.length} case(s) from issues closed as duplicates.`,
+    "",
+    `| Variant | Cases | Precision | Recall | ${LEVELS.map((level) => `Correct at ${level}`).join(" | ")} |`,
+    `|---|---|---|---|${LEVELS.map(() => "---").join("|")}|`,
+    ...rows.map((row) => `| ${row} |`),
+  ].join("\n");
+};
@@ -0,0 +1,397 @@
+import { join } from "node:path";
+import type { GitHub } from "@actions/github/lib/utils";
+import {
+  getCollaboratorPermission,
+  getIssue,
+  listCommentReactions,
+  listIssueComments,
+  listIssueEvents,
+} from "./api";
+import { readJson, writeJson } from "./cache";
+import {
+  CLOSE_NOTICE_MARKER,
+  COMMENT_MARKER,
+  formatIssueRef,
+  formatRatio,
+  hasPermission,
+  pairKey,
+  parseDuplicateOf,
+} from "./utils";
+import type {
+  FeedbackCounts,
+  FeedbackStore,
+  ParsedOutput,
+  RunSummary,
+  SuppressedPair,
+  TrackedSuggestion,
+} from "./types";
+
+// Bumped when the file format changes; older stores start over
+const FEEDBACK_VERSION = 1;
+
+// Suggestions without feedback for this long are no longer polled
+const FEEDBACK_WINDOW_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Bounds the requests per run, the most recent suggestions are polled first
+const MAX_POLLED_SUGGESTIONS = 50;
+
+// Months listed in the step summary
+const REPORTED_MONTHS = 6;
+
+const feedbackPath = (cacheDir: string, owner: string, repo: string) =>
+  join(cacheDir, `feedback-${owner}-${repo}.json`);
+
+const emptyCounts = (): FeedbackCounts => ({
+  suggested: 0,
+  confirmed: 0,
+  rejected: 0,
+  expired: 0,
+});
+
+export const createFeedbackStore = (): FeedbackStore => ({
+  version: FEEDBACK_VERSION,
+  pending: [],
+  suppressed: [],
+  months: {},
+});
+
+export const loadFeedbackStore = async (
+  cacheDir: string,
+  owner: string,
+  repo: string,
+): Promise<FeedbackStore> => {
+  const saved = await readJson<FeedbackStore>(
+    feedbackPath(cacheDir, owner, repo),
+  );
+  return saved?.version === FEEDBACK_VERSION ? saved : createFeedbackStore();
+};
+
+export const saveFeedbackStore = async (
+  cacheDir: string,
+  owner: string,
+  repo: string,
+  store: FeedbackStore,
+) => {
+  await writeJson(feedbackPath(cacheDir, owner, repo), store);
+};
+
+const addCounts = (
+  store: FeedbackStore,
+  date: Date,
+  counts: Partial<FeedbackCounts>,
+) => {
+  const month = date.toISOString().slice(0, 7);
+  const current = store.months[month] ?? emptyCounts();
+  store.months[month] = {
+    suggested: current.suggested + (counts.suggested ?? 0),
+    confirmed: current.confirmed + (counts.confirmed ?? 0),
+    rejected: current.rejected + (counts.rejected ?? 0),
+    expired: current.expired + (counts.expired ?? 0),
+  };
+};
+
+export const getSuppressedPairs = (store: FeedbackStore): Set<string> =>
+  new Set(store.suppressed.map(({ key }) => key));
+
+const suppressPairs = (
+  store: FeedbackStore,
+  issueNumber: number,
+  candidates: TrackedSuggestion["candidates"],
+  reason: SuppressedPair["reason"],
+  now: Date,
+) => {
+  const suppressed = getSuppressedPairs(store);
+  for (const candidate of candidates) {
+    const key = pairKey(issueNumber, candidate);
+    if (suppressed.has(key)) continue;
+    suppressed.add(key);
+    store.suppressed.push({
+      key,
+      issue: issueNumber,
+      candidate: formatIssueRef(candidate.issue, candidate.repo),
+      reason,
+      rejectedAt: now.toISOString(),
+    });
+  }
+};
+
+/**
+ * Records the matches a maintainer dismissed with /not-duplicate. Only pairs
+ * of a pending suggestion count as rejected, the others are just suppressed.
+ */
+export const dismissPairs = (
+  store: FeedbackStore,
+  issueNumber: number,
+  candidates: TrackedSuggestion["candidates"],
+  now: Date = new Date(),
+) => {
+  suppressPairs(store, issueNumber, candidates, "command", now);
+
+  const dismissed = new Set(
+    candidates.map((candidate) => pairKey(issueNumber, candidate)),
+  );
+  const suggestion = store.pending.find(({ issue }) => issue === issueNumber);
+  if (!suggestion) return;
+  const remaining = suggestion.candidates.filter(
+    (candidate) => !dismissed.has(pairKey(issueNumber, candidate)),
+  );
+  addCounts(store, now, {
+    rejected: suggestion.candidates.length - remaining.length,
+  });
+  store.pending = store.pending.flatMap((pending) =>
+    pending !== suggestion
+      ? [pending]
+      : remaining.length > 0
+        ? [{ ...pending, candidates: remaining }]
+        : [],
+  );
+};
+
+/**
+ * Tracks the matches posted for an issue. A later check of the same issue
+ * replaces its suggestion; only pairs not suggested before count as new.
+ */
+export const recordSuggestion = (
+  store: FeedbackStore,
+  issueNumber: number,
+  findings: ParsedOutput[],
+  now: Date = new Date(),
+) => {
+  const previous = store.pending.find(({ issue }) => issue === issueNumber);
+  const known = new Set(
+    previous?.candidates.map((candidate) => pairKey(issueNumber, candidate)),
+  );
+  const candidates = findings.map(({ issue, repo }) => ({
+    issue,
+    ...(repo ? { repo } : {}),
+  }));
+
+  addCounts(store, now, {
+    suggested: candidates.filter(
+      (candidate) => !known.has(pairKey(issueNumber, candidate)),
+    ).length,
+  });
+  store.pending = [
+    ...store.pending.filter(({ issue }) => issue !== issueNumber),
+    { issue: issueNumber, candidates, suggestedAt: now.toISOString() },
+  ];
+};
+
+/**
+ * Resolves one suggestion from the activity on its issue: a 👎 on a comment
+ * of this action or the removal of a watched label by a person rejects every
+ * pair, a 👍 confirms them (reactions only count from collaborators with
+ * write access), and closing the issue as a duplicate confirms the
+ * pairs named in "Duplicate of #N" (all pairs without such a comment).
+ * Returns undefined while the suggestion is still waiting for feedback.
+ */
+const resolveSuggestion = async ({
+  octokit,
+  owner,
+  repo,
+  suggestion,
+  watchedLabels,
+  isMaintainer,
+  now,
+}: {
+  octokit: InstanceType<typeof GitHub>;
+  owner: string;
+  repo: string;
+  suggestion: TrackedSuggestion;
+  watchedLabels: string[];
+  isMaintainer: (username: string) => Promise<boolean>;
+  now: Date;
+}): Promise<
+  | { rejectedBy: "reaction" | "label" }
+  | { confirmed: TrackedSuggestion["candidates"] }
+  | undefined
+> => {
+  const { issue: issueNumber, candidates, suggestedAt } = suggestion;
+  const comments = await listIssueComments({
+    octokit,
+    owner,
+    repo,
+    issueNumber,
+  });
+  const reactions: string[] = [];
+  for (const { id, body } of comments) {
+    if (!body.includes(COMMENT_MARKER) && !body.includes(CLOSE_NOTICE_MARKER)) {
+      continue;
+    }
+    const commentReactions = await listCommentReactions({
+      octokit,
+      owner,
+      repo,
+      commentId: id,
+    });
+    for (const { content, user } of commentReactions) {
+      if (await isMaintainer(user)) reactions.push(content);
+    }
+  }
+  if (reactions.includes("-1")) return { rejectedBy: "reaction" };
+
+  const events = await listIssueEvents({ octokit, owner, repo, issueNumber });
+  const labelRemoved = events.some(
+    ({ event, label, actorIsBot, createdAt }) =>
+      event === "unlabeled" &&
+      !actorIsBot &&
+      label !== undefined &&
+      watchedLabels.includes(label) &&
+      createdAt >= suggestedAt,
+  );
+  if (labelRemoved) return { rejectedBy: "label" };
+  if (reactions.includes("+1")) return { confirmed: candidates };
+
+  const issue = await getIssue({ octokit, owner, repo, issueNumber });
+  if (issue?.state === "closed") {
+    if (issue.stateReason !== "duplicate") return { confirmed: [] };
+    const duplicateOf = comments.flatMap(({ body }) => parseDuplicateOf(body));
+    return {
+      confirmed:
+        duplicateOf.length === 0
+          ? candidates
+          : candidates.filter(
+              ({ issue, repo }) => !repo && duplicateOf.includes(issue),
+            ),
+    };
+  }
+
+  if (now.getTime() - new Date(suggestedAt).getTime() > FEEDBACK_WINDOW_MS) {
+    return { confirmed: [] };
+  }
+  return undefined;
+};
+
+/**
+ * Polls the pending suggestions for feedback. Rejected pairs are added to the
+ * suppressed pairs, and pairs resolved without feedback count as expired.
+ * Returns the pair counts resolved in this run.
+ */
+export const collectFeedback = async ({
+  octokit,
+  owner,
+  repo,
+  store,
+  watchedLabels,
+  now = new Date(),
+}: {
+  octokit: InstanceType<typeof GitHub>;
+  owner: string;
+  repo: string;
+  store: FeedbackStore;
+  watchedLabels: string[];
+  now?: Date;
+}): Promise<FeedbackCounts> => {
+  const resolved = emptyCounts();
+  const polled = [...store.pending]
+    .sort((a, b) => b.suggestedAt.localeCompare(a.suggestedAt))
+    .slice(0, MAX_POLLED_SUGGESTIONS);
+  const pending = store.pending.filter(
+    (suggestion) => !polled.includes(suggestion),
+  );
+
+  // Anyone can react, so the permission of each reacting user is looked up once
+  const permissions = new Map<string, Promise<boolean>>();
+  const isMaintainer = (username: string) => {
+    if (!permissions.has(username)) {
+      permissions.set(
+        username,
+        getCollaboratorPermission({ octokit, owner, repo, username }).then(
+          (permission) => hasPermission(permission, "write"),
+        ),
+      );
+    }
+    return permissions.get(username)!;
+  };
+
+  for (const suggestion of polled) {
+    const outcome = await resolveSuggestion({
+      octokit,
+      owner,
+      repo,
+      suggestion,
+      watchedLabels,
+      isMaintainer,
+      now,
+    });
+    if (!outcome) {
+      pending.push(suggestion);
+      continue;
+    }
+
+    const { issue: issueNumber, candidates } = suggestion;
+    if ("rejectedBy" in outcome) {
+      suppressPairs(store, issueNumber, candidates, outcome.rejectedBy, now);
+      resolved.rejected += candidates.length;
+      console.log(
+        `Feedback: #${issueNumber} rejected by ${outcome.rejectedBy}, suppressing ${candidates.length} pair(s).`,
+      );
+    } else {
+      resolved.confirmed += outcome.confirmed.length;
+      resolved.expired += candidates.length - outcome.confirmed.length;
+    }
+  }
+
+  store.pending = pending;
+  addCounts(store, now, resolved);
+  return resolved;
+};
+
+/**
+ * Loads the feedback store from the cache directory, collects the feedback
+ * on earlier suggestions and reports it together with the monthly counts.
+ */
+export const openFeedbackStore = async ({
+  octokit,
+  owner,
+  repo,
+  cacheDir,
+  watchedLabels,
+  summary,
+}: {
+  octokit: InstanceType<typeof GitHub>;
+  owner: string;
+  repo: string;
+  cacheDir: string;
+  watchedLabels: string[];
+  summary: RunSummary;
+}): Promise<FeedbackStore> => {
+  const store = await loadFeedbackStore(cacheDir, owner, repo);
+  const polled = Math.min(store.pending.length, MAX_POLLED_SUGGESTIONS);
+  const resolved = await collectFeedback({
+    octokit,
+    owner,
+    repo,
+    store,
+    watchedLabels,
+  });
+
+  summary.addHeading("Maintainer Feedback");
+  summary.addRaw(`- Suggestions Polled: ${polled}\n`);
+  summary.addRaw(
+    `- New Feedback: ${resolved.confirmed} confirmed, ${resolved.rejected} rejected, ${resolved.expired} without feedback\n`,
+  );
+  summary.addRaw(`- Suppressed Pairs: ${store.suppressed.length}\n`);
+  summary.addRaw(`\n${formatFeedbackStats(store)}\n`);
+  return store;
+};
+
+/**
+ * Markdown table of the issue pair counts of the last months. Precision only
+ * counts the pairs that got feedback.
+ */
+export const formatFeedbackStats = (store: FeedbackStore): string => {
+  const months = Object.keys(store.months).sort().slice(-REPORTED_MONTHS);
+  if (months.length === 0) return "No feedback collected yet.";
+
+  const rows = months.map((month) => {
+    const { suggested, confirmed, rejected, expired } = store.months[month]!;
+    const judged = confirmed + rejected;
+    return `| ${month} | ${suggested} | ${confirmed} | ${rejected} | ${expired} | ${formatRatio(judged === 0 ? null : confirmed / judged)} |`;
+  });
+  return [
+    "| Month | Suggested | Confirmed | Rejected | No Feedback | Precision |",
+    "|---|---|---|---|---|---|",
+    ...rows,
+  ].join("\n");
+};
@@ -0,0 +1,171 @@
+import type { ErrorSignature, Issue, ParsedOutput } from "./types";
+
+export const SIGNATURE_REASON = "identical error signature";
+
+// Shorter messages ("Error: failed") are shared by unrelated errors
+const MIN_MESSAGE_LENGTH = 15;
+
+// A trace is compared by its top frames, where the error was thrown
+const MIN_FRAMES = 3;
+const MAX_FRAMES = 5;
+
+// e.g. "TypeError: ...", "java.lang.IllegalStateException: ...",
+// "Caused by: ...", "Error [ERR_REQUIRE_ESM]: ..."
+const EXCEPTION_PATTERN =
+  /^\s*(?:Uncaught (?:\(in promise\) )?|Caused by: |Exception in thread "[^"]*" |Unhandled exception\. )?((?:[A-Za-z_$][\w$]*\.)*(?:[A-Z][\w$]*)?(?:Error|Exception|Fault))(?: ?\[[\w-]+\])?: (.+)$/;
+
+// Go ("panic: ...") and Rust ("thread 'main' panicked at ...") panics
+const PANIC_PATTERN = /^\s*panic: (.+)$/;
+const RUST_PANIC_PATTERN =
+  /^\s*thread '[^']*' panicked at (?:'(.+)', \S+|\S+:)$/;
+
+// JavaScript, Java & C# ("at ...") and Python ('File "...", line N, in ...')
+const FRAME_PATTERN = /^\s*(?:at (.+)|(File ".+", line \d+, in .+))$/;
+
+// Codes specific enough to identify an error: Node.js error codes, Windows
+// HRESULTs and vendor codes like ORA-00942. Generic ones such as ENOENT or
+// HTTP statuses are left out, unrelated errors share them.
+const ERROR_CODE_PATTERN =
+  /\b(ERR_[A-Z0-9_]{3,}|0x8[0-9A-Fa-f]{7}|[A-Z]{2,4}-\d{4,5})\b/g;
+
+const HEX_ADDRESS_PATTERN = /\b0x[0-9a-f]{4,}\b/gi;
+
+// Directories are dropped, file names kept: the same frames differ by install path
+const PATH_PATTERN =
+  /(?:[a-z][\w+.-]*:\/\/\/?)?(?:\b[a-z]:)?(?:[\w.@~$%+-]*[\\/])+([\w.@$%+-]+)/gi;
+
+const LINE_NUMBER_PATTERN = /:\d+(?::\d+)?|\bline \d+/gi;
+
+/**
+ * Strips what differs between two reports of the same error: hex addresses,
+ * directories and line/column numbers. Case and whitespace are normalized.
+ */
+export const normalizeErrorText = (text: string): string =>
+  text
+    .replace(HEX_ADDRESS_PATTERN, "<addr>")
+    .replace(PATH_PATTERN, "$1")
+    .replace(LINE_NUMBER_PATTERN, (match) =>
+      match.startsWith(":") ? "" : "line",
+    )
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .trim();
+
+/**
+ * Collects the error messages, exception types, stack frames and error codes
+ * found in an issue, line by line. Messages keep their exception type, frames
+ * keep their order and only the first stack trace is read.
+ */
+export const extractErrorSignature = (text: string): ErrorSignature => {
+  const signature: ErrorSignature = {
+    exceptionTypes: [],
+    messages: [],
+    frames: [],
+    codes: [],
+  };
+  const lines = text.split(/\r?\n/);
+  let traceEnded = false;
+
+  lines.forEach((line, i) => {
+    const exception = EXCEPTION_PATTERN.exec(line);
+    const panic = PANIC_PATTERN.exec(line) ?? RUST_PANIC_PATTERN.exec(line);
+    // Newer Rust versions print the panic message on the next line
+    const panicMessage = panic && (panic[1] ?? lines[i + 1]);
+    if (exception) {
+      const [, type, message] = exception;
+      signature.exceptionTypes.push(type!);
+      signature.messages.push(normalizeErrorText(`${type}: ${message}`));
+    } else if (panicMessage) {
+      signature.exceptionTypes.push("panic");
+      signature.messages.push(normalizeErrorText(`panic: ${panicMessage}`));
+    }
+    if (exception || panic) {
+      for (const [, code] of line.matchAll(ERROR_CODE_PATTERN)) {
+        signature.codes.push(code!);
+      }
+    }
+
+    const frame = FRAME_PATTERN.exec(line);
+    if (frame && !traceEnded) {
+      signature.frames.push(normalizeErrorText(frame[1] ?? frame[2]!));
+    } else if (signature.frames.length > 0 && line.trim() !== "") {
+      traceEnded = true;
+    }
+  });
+
+  return {
+    exceptionTypes: [...new Set(signature.exceptionTypes)],
+    messages: [...new Set(signature.messages)].filter(
+      (message) => message.length >= MIN_MESSAGE_LENGTH,
+    ),
+    frames: signature.frames,
+    codes: [...new Set(signature.codes)],
+  };
+};
+
+/**
+ * Turns a signature into the fingerprints compared between issues: one per
+ * error message, one for the top stack frames and one per error code paired
+ * with each exception type.
+ */
+export const buildFingerprints = (signature: ErrorSignature): Set<string> => {
+  const fingerprints = new Set(
+    signature.messages.map((message) => `message:${message}`),
+  );
+  if (signature.frames.length >= MIN_FRAMES) {
+    fingerprints.add(
+      `stack:${signature.frames.slice(0, MAX_FRAMES).join(" < ")}`,
+    );
+  }
+  for (const type of signature.exceptionTypes) {
+    for (const code of signature.codes) {
+      fingerprints.add(`code:${type.toLowerCase()}:${code.toLowerCase()}`);
+    }
+  }
+  return fingerprints;
+};
+
+const issueFingerprints = (title: string, body: string): Set<string> =>
+  buildFingerprints(extractErrorSignature(`${title}\n${body}`));
+
+/**
+ * Finds the candidates sharing an error fingerprint with the current issue.
+ * Matching is exact and needs no model, so a shared stack trace or error code
+ * is reported as "high". A shared message alone is "medium": generic messages
+ * recur across unrelated bugs and must not be enough to auto-close.
+ */
+export const findSignatureMatches = ({
+  issueNumber,
+  title,
+  body,
+  candidates,
+}: {
+  issueNumber: number;
+  title: string;
+  body: string;
+  candidates: Issue[];
+}): ParsedOutput[] => {
+  const fingerprints = issueFingerprints(title, body);
+  if (fingerprints.size === 0) return [];
+
+  return candidates.flatMap((candidate) => {
+    if (!candidate.repo && candidate.number === issueNumber) return [];
+    const shared = [
+      ...issueFingerprints(candidate.title, candidate.body),
+    ].filter((fingerprint) => fingerprints.has(fingerprint));
+    if (shared.length === 0) return [];
+
+    return [
+      {
+        issue: candidate.number,
+        ...(candidate.repo ? { repo: candidate.repo } : {}),
+        likelihood: shared.every((fingerprint) =>
+          fingerprint.startsWith("message:"),
+        )
+          ? "medium"
+          : "high",
+        reason: SIGNATURE_REASON,
+      },
+    ];
+  });
+};
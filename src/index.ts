@@ -1,236 +1,967 @@
 import { context, getOctokit } from "@actions/github";
-import { getInput, summary } from "@actions/core";
-import { getIssuesToCompare, createIssueComment, addIssueLabels } from "./api";
+import type { GitHub } from "@actions/github/lib/utils";
+import {
+  getInput as getActionInput,
+  setFailed,
+  setOutput,
+  summary,
+} from "@actions/core";
+import {
+  getIssuesToCompare,
+  createIssueComment,
+  upsertIssueComment,
+  getLabeledIssues,
+  listIssueComments,
+  closeIssueAsDuplicate,
+  removeIssueLabel,
+  addIssueLabels,
+  upsertTrackingIssue,
+  createDiscussionComment,
+  getIssue,
+  getCollaboratorPermission,
+  createCommentReaction,
+} from "./api";
 import {
   verifyIssueStateInput,
+  verifyCommentModeInput,
+  verifyLikelihoodInput,
+  parseLikelihoodLabels,
   processDateInput,
-  chunk,
-  buildBatchUserContent,
-  systemPromptMsg,
-  buildCurrentIssueSummary,
-  verifyJsonResponse,
+  parseCandidateFilters,
+  parseCandidateRepos,
+  describeCandidateFilters,
   buildCommentBody,
+  buildDuplicateMatches,
+  getTopDuplicate,
+  getLikelihoodLabels,
+  verifyModeInput,
+  parseCloseNotice,
+  CLOSE_NOTICE_MARKER,
+  verifyProviderInput,
+  verifyPermissionInput,
+  hasPermission,
 } from "./utils";
-import { aiInference } from "./ai";
-import type { ParsedOutput } from "./types";
+import { DEFAULT_ENDPOINTS } from "./providers";
+import {
+  CHECK_DEFAULTS,
+  verifyCheckConfig,
+  runDuplicateCheck,
+  applyFindings,
+  cancelAutoClose,
+} from "./check";
+import {
+  SWEEP_REPORT_MARKER,
+  sampleIssues,
+  runSweep,
+  clusterMatches,
+  buildClusterReport,
+  buildTrackingIssueBody,
+  writeClusterReport,
+} from "./sweep";
+import { openCache, saveCache, filterIssueCorpus } from "./cache";
+import { DEFAULT_CONFIG_PATH, loadRepoConfig } from "./config";
+import {
+  loadFeedbackStore,
+  openFeedbackStore,
+  saveFeedbackStore,
+  getSuppressedPairs,
+  recordSuggestion,
+  dismissPairs,
+} from "./feedback";
+import {
+  COMMAND_USAGE,
+  parseSlashCommand,
+  dismissMatches,
+  markDuplicateOf,
+} from "./commands";
+import type {
+  CheckSettings,
+  CommentTemplate,
+  Issue,
+  Likelihood,
+  ParsedOutput,
+  PermissionLevel,
+  SlashCommand,
+} from "./types";
+
+const setDuplicateOutputs = (
+  outputs: ParsedOutput[],
+  issuesToCompare: Issue[],
+) => {
+  const matches = buildDuplicateMatches(outputs, issuesToCompare);
+  const top = getTopDuplicate(matches);
+  // The top number always refers to an issue of this repository
+  const topInRepo = getTopDuplicate(matches.filter(({ repo }) => !repo));
+  setOutput("duplicates", JSON.stringify(matches));
+  setOutput("duplicate_count", matches.length);
+  setOutput("highest_likelihood", top?.likelihood ?? "");
+  setOutput("top_duplicate_number", topInRepo?.issue ?? "");
+};
+
+/**
+ * Scheduled-run entry point: closes issues whose auto-close notice has expired.
+ * Issues whose label was removed are no longer listed, and issues whose author
+ * replied after the notice are left open and lose the label.
+ */
+const closePendingDuplicates = async ({
+  octokit,
+  owner,
+  repo,
+  label,
+}: {
+  octokit: InstanceType<typeof GitHub>;
+  owner: string;
+  repo: string;
+  label: string;
+}) => {
+  summary.addHeading("Pending Duplicate Closes");
+  summary.addRaw(`- Owner: ${owner}\n`);
+  summary.addRaw(`- Repo: ${repo}\n`);
+  summary.addRaw(`- Auto Close Label: ${label}\n`);
+
+  const pendingIssues = await getLabeledIssues({ octokit, owner, repo, label });
+  console.log(
+    `Found ${pendingIssues.length} open issue(s) labeled "${label}".`,
+  );
+  summary.addRaw(`- Labeled Open Issues: ${pendingIssues.length}\n`);
+
+  for (const issue of pendingIssues) {
+    const comments = await listIssueComments({
+      octokit,
+      owner,
+      repo,
+      issueNumber: issue.number,
+    });
+    const noticeComment = comments.find(({ body }) =>
+      body.includes(CLOSE_NOTICE_MARKER),
+    );
+    const notice = noticeComment && parseCloseNotice(noticeComment.body);
+
+    if (!noticeComment || !notice) {
+      summary.addRaw(`- #${issue.number}: no close notice, skipped\n`);
+      continue;
+    }
+
+    const authorReplied = comments.some(
+      ({ author, createdAt }) =>
+        author === issue.author &&
+        new Date(createdAt) > new Date(noticeComment.createdAt),
+    );
+    if (authorReplied) {
+      await removeIssueLabel({
+        octokit,
+        owner,
+        repo,
+        issueNumber: issue.number,
+        label,
+      });
+      summary.addRaw(
+        `- #${issue.number}: author replied after the notice, close cancelled\n`,
+      );
+      continue;
+    }
+
+    if (new Date(notice.closeAfter) > new Date()) {
+      summary.addRaw(
+        `- #${issue.number}: grace period ends ${notice.closeAfter}, skipped\n`,
+      );
+      continue;
+    }
+
+    await createIssueComment({
+      octokit,
+      owner,
+      repo,
+      issueNumber: issue.number,
+      body: `Closing as a duplicate of #${notice.duplicateOf}.`,
+    });
+    const closed = await closeIssueAsDuplicate({
+      octokit,
+      owner,
+      repo,
+      issueNumber: issue.number,
+    });
+    summary.addRaw(
+      closed
+        ? `- #${issue.number}: closed as duplicate of #${notice.duplicateOf}\n`
+        : `- #${issue.number}: failed to close\n`,
+    );
+  }
+
+  console.log("Pending duplicate closes processed.");
+  summary.write();
+};
+
+/**
+ * Issue comment entry point: runs the slash command of a new comment when its
+ * author has the required permission. /not-duplicate and /duplicate-of are
+ * handled here; for /duplicates check the issue is returned, with its
+ * current text, to run the regular check on.
+ */
+const runSlashCommand = async ({
+  octokit,
+  owner,
+  repo,
+  requiredPermission,
+  maxResults,
+  commentTemplate,
+  labels,
+  likelihoodLabels,
+  autoCloseLabel,
+  cacheDir,
+}: {
+  octokit: InstanceType<typeof GitHub>;
+  owner: string;
+  repo: string;
+  requiredPermission: PermissionLevel;
+  maxResults: number;
+  commentTemplate?: CommentTemplate;
+  labels: string[];
+  likelihoodLabels: Partial<Record<Likelihood, string[]>>;
+  autoCloseLabel: string;
+  cacheDir?: string;
+}): Promise<
+  { issue: Issue; issueStateFilter?: "all" | "open" | "closed" } | undefined
+> => {
+  const { action, comment, issue } = context.payload;
+  const issueNumber: number | undefined = issue?.number;
+  // Edits would run a command twice, and bots could loop with this action
+  if (
+    action !== "created" ||
+    !comment ||
+    !issueNumber ||
+    comment.user?.type === "Bot"
+  ) {
+    console.log("Not a new comment by a person, nothing to do.");
+    return undefined;
+  }
+  if (issue?.pull_request) {
+    console.log("Slash commands are only handled on issues.");
+    return undefined;
+  }
+
+  const reply = async (body: string) =>
+    createIssueComment({ octokit, owner, repo, issueNumber, body });
+  const react = async (succeeded: boolean) =>
+    createCommentReaction({
+      octokit,
+      owner,
+      repo,
+      commentId: comment.id,
+      content: succeeded ? "+1" : "confused",
+    });
+
+  let command: SlashCommand | undefined;
+  let invalidCommand: string | undefined;
+  try {
+    command = parseSlashCommand(comment.body ?? "");
+  } catch (error) {
+    invalidCommand = (error as Error).message;
+  }
+  if (!command && !invalidCommand) {
+    console.log("No slash command in the comment, nothing to do.");
+    return undefined;
+  }
+
+  const author: string = comment.user?.login ?? "";
+  summary.addHeading("Slash Command");
+  summary.addRaw(`- Issue Number: ${issueNumber}\n`);
+  summary.addRaw(`- Author: ${author}\n`);
+  summary.addRaw(`- Required Permission: ${requiredPermission}\n`);
+
+  const permission = await getCollaboratorPermission({
+    octokit,
+    owner,
+    repo,
+    username: author,
+  });
+  if (!hasPermission(permission, requiredPermission)) {
+    console.log(
+      `${author} has ${permission ?? "no"} permission, ${requiredPermission} is required.`,
+    );
+    summary.addRaw(
+      `- Ignored: ${author} has ${permission ?? "no"} permission.\n`,
+    );
+    summary.write();
+    return undefined;
+  }
+
+  if (!command) {
+    summary.addRaw(`- Invalid command: ${invalidCommand}\n`);
+    await reply(`${invalidCommand}\n\nAvailable commands:\n${COMMAND_USAGE}`);
+    await react(false);
+    summary.write();
+    return undefined;
+  }
+  summary.addRaw(`- Command: ${command.name}\n`);
+
+  if (command.name === "check") {
+    const current = await getIssue({ octokit, owner, repo, issueNumber });
+    if (!current) {
+      await react(false);
+      summary.write();
+      throw new Error(`Issue #${issueNumber} not found in ${owner}/${repo}`);
+    }
+    // The check compares descriptions, an empty one would fail the run
+    if (!current.body.trim()) {
+      summary.addRaw(`- Invalid command: the issue has no description\n`);
+      await reply(
+        "This issue has no description to compare. Add one and run `/duplicates check` again.",
+      );
+      await react(false);
+      summary.write();
+      return undefined;
+    }
+    await react(true);
+    return { issue: current, issueStateFilter: command.issueStateFilter };
+  }
+
+  if (command.name === "duplicate-of") {
+    const closed = await markDuplicateOf({
+      octokit,
+      owner,
+      repo,
+      issueNumber,
+      duplicateOf: command.issue,
+      label: autoCloseLabel,
+      summary,
+    });
+    await react(closed);
+    summary.write();
+    return undefined;
+  }
+
+  // Without a cache the matches are only removed from the comment
+  if (cacheDir) {
+    const feedback = await loadFeedbackStore(cacheDir, owner, repo);
+    dismissPairs(feedback, issueNumber, command.candidates);
+    await saveFeedbackStore(cacheDir, owner, repo, feedback);
+    summary.addRaw(
+      `- Suppressed Pairs: ${command.candidates.length} added, ${feedback.suppressed.length} in total\n`,
+    );
+  }
+  const updated = await dismissMatches({
+    octokit,
+    owner,
+    repo,
+    issueNumber,
+    candidates: command.candidates,
+    maxResults,
+    commentTemplate,
+    labels,
+    likelihoodLabels,
+    autoCloseLabel,
+    summary,
+  });
+  await react(updated);
+  summary.write();
+  return undefined;
+};
+
+/**
+ * Sweep entry point: checks open issues (all, or a random sample) against the
+ * others and reports the duplicate clusters in the job summary, a JSON/CSV
+ * report file and optionally a tracking issue. Clustered issues get the
+ * configured labels.
+ */
+const sweepDuplicates = async ({
+  octokit,
+  settings,
+  sampleSize,
+  reportPath,
+  trackingIssue,
+  trackingIssueTitle,
+  labels,
+  likelihoodLabels,
+  cacheDir,
+}: {
+  octokit: InstanceType<typeof GitHub>;
+  settings: CheckSettings;
+  sampleSize: number;
+  reportPath: string;
+  trackingIssue: boolean;
+  trackingIssueTitle: string;
+  labels: string[];
+  likelihoodLabels: Partial<Record<Likelihood, string[]>>;
+  cacheDir?: string;
+}) => {
+  const { owner, repo } = settings;
+  summary.addHeading("Backlog Sweep");
+  summary.addRaw(`- Owner: ${owner}\n`);
+  summary.addRaw(`- Repo: ${repo}\n`);
+  summary.addRaw(`- Issue State Filter: ${settings.issueStateFilter}\n`);
+  summary.addRaw(
+    `- Candidate Filters: ${describeCandidateFilters(settings.candidateFilters)}\n`,
+  );
+  summary.addRaw(
+    `- Sample Size: ${sampleSize === 0 ? "All open issues" : sampleSize}\n`,
+  );
+  summary.addRaw(`- AI Model: ${settings.modelName}\n`);
+
+  // The tracking issue from earlier sweeps is not part of the backlog
+  const cache = cacheDir
+    ? await openCache({ octokit, owner, repo, cacheDir, summary })
+    : undefined;
+  const suppressedPairs = cacheDir
+    ? getSuppressedPairs(await loadFeedbackStore(cacheDir, owner, repo))
+    : undefined;
+  const candidates = (
+    cache && !settings.candidateFilters.searchQuery
+      ? filterIssueCorpus(cache.issues, settings)
+      : await getIssuesToCompare({
+          octokit,
+          owner,
+          repo,
+          issueStateFilter: settings.issueStateFilter,
+          timeFilter: settings.timeFilter,
+          includePullRequests: settings.includePullRequests,
+          filters: settings.candidateFilters,
+        })
+  ).filter(({ body }) => !body.includes(SWEEP_REPORT_MARKER));
+  const targets = sampleIssues(
+    candidates.filter(
+      ({ state, kind }) => state === "open" && kind === "issue",
+    ),
+    sampleSize,
+  );
+  console.log(
+    `Sweeping ${targets.length} issue(s) against ${candidates.length} candidate(s).`,
+  );
+  summary.addRaw(`- Candidates: ${candidates.length}\n`);
+  summary.addRaw(`- Issues to Check: ${targets.length}\n`);
+
+  const { matches, checked, aiErrors } = await runSweep({
+    octokit,
+    config: settings,
+    targets,
+    candidates,
+    verdictCache: cache?.verdictCache,
+    suppressedPairs,
+    summary,
+  });
+  if (cacheDir && cache) await saveCache(cacheDir, cache.verdictCache, summary);
+  const clusters = clusterMatches(matches);
+
+  summary.addRaw(`- Issues Checked: ${checked}\n`);
+  summary.addRaw(`- Matches Found: ${matches.length}\n`);
+  summary.addRaw(`- Duplicate Clusters: ${clusters.length}\n`);
+  summary.addHeading("Duplicate Clusters", 3);
+  summary.addRaw(buildClusterReport(clusters, candidates));
+
+  await writeClusterReport(reportPath, clusters, candidates);
+  console.log(`Cluster report written to ${reportPath}.`);
+  summary.addRaw(`\n- Report written to \`${reportPath}\`\n`);
+  setOutput("cluster_count", clusters.length);
+  setOutput("report_path", reportPath);
+
+  if (trackingIssue) {
+    const trackingIssueNumber = await upsertTrackingIssue({
+      octokit,
+      owner,
+      repo,
+      title: trackingIssueTitle,
+      body: buildTrackingIssueBody(clusters, candidates, checked),
+      marker: SWEEP_REPORT_MARKER,
+    });
+    summary.addRaw(
+      trackingIssueNumber
+        ? `- Tracking issue updated: #${trackingIssueNumber}\n`
+        : `- Failed to update the tracking issue.\n`,
+    );
+  }
+
+  for (const cluster of clusters) {
+    const clusterLabels = [
+      ...new Set([
+        ...labels,
+        ...getLikelihoodLabels(
+          cluster.matches.map(({ duplicate, likelihood }) => ({
+            issue: duplicate,
+            likelihood,
+          })),
+          likelihoodLabels,
+        ),
+      ]),
+    ];
+    if (clusterLabels.length === 0) continue;
+    // The oldest issue is the original the others duplicate, it stays unlabeled
+    const duplicates = cluster.issues.slice(1);
+    for (const issueNumber of duplicates) {
+      await addIssueLabels({
+        octokit,
+        owner,
+        repo,
+        issueNumber,
+        labels: clusterLabels,
+      });
+    }
+    summary.addRaw(
+      `- Cluster ${cluster.id}: labeled ${duplicates.length} duplicate(s) of #${cluster.issues[0]} with ${clusterLabels.join(", ")}\n`,
+    );
+  }
+
+  summary.write();
+  if (aiErrors.length > 0) {
+    setFailed(`AI inference failed: ${aiErrors.join("; ")}`);
+  }
+};
 
 const main = async () => {
   // Required inputs
-  const token = getInput("token") || process.env.GITHUB_TOKEN;
-  const owner = getInput("owner") || context?.repo?.owner;
-  const repo = getInput("repo_name") || context?.repo?.repo;
+  const token = getActionInput("token") || process.env.GITHUB_TOKEN;
+  const owner = getActionInput("owner") || context?.repo?.owner;
+  const repo = getActionInput("repo_name") || context?.repo?.repo;
 
-  const issueNumber = getInput("issue_number")
-    ? parseInt(getInput("issue_number"), 10)
-    : context?.payload?.issue?.number;
-  const issueBody = getInput("issue_body");
-  const issueTitle = getInput("issue_title");
-
-  if (!token || !owner || !repo || !issueNumber || !issueBody || !issueTitle) {
+  if (!token || !owner || !repo) {
     throw new Error("Required inputs are not set");
   }
 
   const octokit = getOctokit(token);
 
+  // Workflow inputs take precedence over the config file of the repository
+  const configPath = getActionInput("config_path") || DEFAULT_CONFIG_PATH;
+  const repoConfig = await loadRepoConfig({
+    octokit,
+    owner,
+    repo,
+    path: configPath,
+  });
+  const getInput = (name: string) =>
+    getActionInput(name) || repoConfig.inputs[name] || "";
+  const { commentTemplate } = repoConfig;
+
+  // Auto-close configuration
+  const autoClose = getInput("auto_close") === "true";
+  const autoCloseLabel = getInput("auto_close_label") || "duplicate";
+  const autoCloseDelayHours = getInput("auto_close_delay_hours")
+    ? parseFloat(getInput("auto_close_delay_hours"))
+    : 72;
+
+  if (isNaN(autoCloseDelayHours) || autoCloseDelayHours < 0) {
+    throw new Error("auto_close_delay_hours must be 0 or greater");
+  }
+
+  // Scheduled runs close pending duplicates unless a mode is set explicitly
+  const mode = getInput("mode")
+    ? verifyModeInput(getInput("mode"))
+    : context?.eventName === "schedule"
+      ? "close-pending"
+      : "check";
+
+  if (mode === "close-pending") {
+    await closePendingDuplicates({
+      octokit,
+      owner,
+      repo,
+      label: autoCloseLabel,
+    });
+    return;
+  }
+
   // AI configuration
-  const endpoint = getInput("endpoint");
+  const provider = verifyProviderInput(
+    getInput("provider") || CHECK_DEFAULTS.provider,
+  );
+  const endpoint = getInput("endpoint") || DEFAULT_ENDPOINTS[provider];
+  // GitHub Models accepts the GitHub token, other providers need their own key
+  const aiToken = getInput("ai_token") || (provider === "azure" ? token : "");
   const modelName = getInput("model");
+  const structuredOutput = getInput("structured_output") === "true";
+  const maxRetries = getInput("max_retries")
+    ? parseInt(getInput("max_retries"), 10)
+    : CHECK_DEFAULTS.maxRetries;
+  const failOnAiError = getInput("fail_on_ai_error") !== "false";
+  const concurrency = getInput("concurrency")
+    ? parseInt(getInput("concurrency"), 10)
+    : CHECK_DEFAULTS.concurrency;
   const maxTokens = getInput("max_tokens")
     ? parseInt(getInput("max_tokens"), 10)
-    : 200;
+    : CHECK_DEFAULTS.maxTokens;
   const batchSize = getInput("batch_size")
     ? parseInt(getInput("batch_size"), 10)
-    : 50;
+    : CHECK_DEFAULTS.batchSize;
 
-  // Validate batch size
-  if (batchSize <= 0 || batchSize > 100) {
-    throw new Error("batch_size must be between 1 and 100");
-  }
+  // Token budget configuration
+  const maxInputTokens = getInput("max_input_tokens")
+    ? parseInt(getInput("max_input_tokens"), 10)
+    : CHECK_DEFAULTS.maxInputTokens;
+  const maxIssueTokens = getInput("max_issue_tokens")
+    ? parseInt(getInput("max_issue_tokens"), 10)
+    : CHECK_DEFAULTS.maxIssueTokens;
+
+  // Lexical pre-ranking configuration
+  const maxCandidates = getInput("max_candidates")
+    ? parseInt(getInput("max_candidates"), 10)
+    : CHECK_DEFAULTS.maxCandidates;
+  const minLexicalScore = getInput("min_lexical_score")
+    ? parseFloat(getInput("min_lexical_score"))
+    : CHECK_DEFAULTS.minLexicalScore;
 
   const issueStateFilter = verifyIssueStateInput(
-    getInput("issue_state_filter"),
+    getInput("issue_state_filter") || CHECK_DEFAULTS.issueStateFilter,
   );
-  const postComment = getInput("post_comment") === "true";
+  const postComment = getInput("post_comment") !== "false";
+  // comment_mode takes precedence over the legacy post_comment flag
+  const commentMode = getInput("comment_mode")
+    ? verifyCommentModeInput(getInput("comment_mode"))
+    : postComment
+      ? "create"
+      : "none";
+  const includePullRequests = getInput("include_pull_requests") === "true";
+  // Pull request events compare the incoming PR against other open PRs
+  const pullRequestMode = ["pull_request", "pull_request_target"].includes(
+    context?.eventName,
+  );
+  // Discussion events compare the new discussion against issues and discussions
+  const discussionMode = context?.eventName === "discussion";
+  const includeDiscussions =
+    discussionMode || getInput("include_discussions") === "true";
   const timeFilterInput = getInput("time_filter");
   const timeFilter = timeFilterInput
     ? processDateInput(timeFilterInput)
     : undefined;
+  const candidateFilters = parseCandidateFilters({
+    includeLabels: getInput("include_labels"),
+    excludeLabels: getInput("exclude_labels"),
+    excludeAuthors: getInput("exclude_authors"),
+    milestone: getInput("milestone"),
+    createdAfter: getInput("created_after"),
+    searchQuery: getInput("search_query"),
+  });
+  const candidateRepos = parseCandidateRepos(getInput("candidate_repos"));
   const labelsInput = getInput("labels");
   const labels = labelsInput
     ? labelsInput.split(",").map((label) => label.trim())
     : [];
+  const minLikelihood = getInput("min_likelihood")
+    ? verifyLikelihoodInput(getInput("min_likelihood"))
+    : CHECK_DEFAULTS.minLikelihood;
+  const likelihoodLabels = parseLikelihoodLabels(getInput("likelihood_labels"));
+  const rerank = getInput("rerank") !== "false";
+  const requireEvidence = getInput("require_evidence") !== "false";
+  const matchErrorSignatures = getInput("match_error_signatures") !== "false";
+  const maxResults = getInput("max_results")
+    ? parseInt(getInput("max_results"), 10)
+    : CHECK_DEFAULTS.maxResults;
 
-  // Log configuration summary
-  summary.addHeading("Configuration Summary");
-  summary.addRaw(`- Owner: ${owner}\n`);
-  summary.addRaw(`- Repo: ${repo}\n`);
-  summary.addRaw(`- Issue Number: ${issueNumber}\n`);
-  summary.addRaw(`- Issue State Filter: ${issueStateFilter}\n`);
-  summary.addRaw(`- Time Filter: ${timeFilter || "None"}\n`);
-  summary.addRaw(
-    `- Labels to Add: ${labels.length > 0 ? labels.join(", ") : "None"}\n`,
-  );
-  summary.addRaw(`- AI Endpoint: ${endpoint}\n`);
-  summary.addRaw(`- AI Model: ${modelName}\n`);
-  summary.addRaw(`- Max Tokens: ${maxTokens}\n`);
-  summary.addRaw(`- Batch Size: ${batchSize}\n`);
-  summary.addRaw(`- Post Comment: ${postComment}\n`);
+  if (isNaN(maxResults) || maxResults < 1) {
+    throw new Error("max_results must be 1 or greater");
+  }
 
-  // -------- Fetch Issues for Comparison ----------------------------------------
-  summary.addHeading("Issues for Comparison Stats");
-  console.log(`Fetching issues...`);
+  // Candidate comments cost one extra request per kept candidate
+  const includeComments = getInput("include_comments") === "true";
+  const maxComments = getInput("max_comments")
+    ? parseInt(getInput("max_comments"), 10)
+    : CHECK_DEFAULTS.maxComments;
 
-  const issuesToCompare = await getIssuesToCompare({
-    octokit,
+  const cacheDir = getInput("cache_dir") || undefined;
+
+  const sweepSampleSize = getInput("sweep_sample_size")
+    ? parseInt(getInput("sweep_sample_size"), 10)
+    : 0;
+
+  if (isNaN(sweepSampleSize) || sweepSampleSize < 0) {
+    throw new Error("sweep_sample_size must be 0 (all issues) or greater");
+  }
+
+  const settings = verifyCheckConfig({
     owner,
     repo,
-    issueNumber,
+    pullRequestMode,
+    provider,
+    endpoint,
+    aiToken,
+    modelName,
+    structuredOutput,
+    maxRetries,
+    failOnAiError,
+    concurrency,
+    maxTokens,
+    batchSize,
+    maxInputTokens,
+    maxIssueTokens,
+    maxCandidates,
+    minLexicalScore,
     issueStateFilter,
+    includePullRequests,
     timeFilter,
+    candidateFilters,
+    candidateRepos,
+    includeDiscussions,
+    minLikelihood,
+    rerank,
+    requireEvidence,
+    matchErrorSignatures,
+    maxComments: includeComments ? maxComments : 0,
+    promptAdditions: repoConfig.promptAdditions,
   });
 
-  console.log(`Issues fetch complete.`);
-  summary.addRaw(`- Issues Found: ${issuesToCompare.length}\n`);
-
-  if (issuesToCompare.length === 0) {
-    console.log("No issues found to compare.");
-    summary.addRaw(`- No issues found for comparison.\n`);
-    summary.write();
+  if (mode === "sweep") {
+    await sweepDuplicates({
+      octokit,
+      // Clusters only cover the issues of this repository
+      settings: {
+        ...settings,
+        pullRequestMode: false,
+        rerank: false,
+        candidateRepos: [],
+        includeDiscussions: false,
+      },
+      sampleSize: sweepSampleSize,
+      reportPath: getInput("sweep_report_path") || "duplicate-clusters.json",
+      trackingIssue: getInput("sweep_tracking_issue") === "true",
+      trackingIssueTitle:
+        getInput("sweep_tracking_title") || "Duplicate issue clusters",
+      labels,
+      likelihoodLabels,
+      cacheDir,
+    });
     return;
   }
 
-  // -------- Batch Issues & AI Inference Loop -----------------------------------
-  summary.addHeading("AI Inference Stats");
+  // Comments only run slash commands, /duplicates check continues below
+  const commandCheck =
+    context?.eventName === "issue_comment"
+      ? await runSlashCommand({
+          octokit,
+          owner,
+          repo,
+          requiredPermission: verifyPermissionInput(
+            getInput("command_permission") || "write",
+          ),
+          maxResults,
+          commentTemplate,
+          labels,
+          likelihoodLabels,
+          autoCloseLabel,
+          cacheDir,
+        })
+      : undefined;
+  if (context?.eventName === "issue_comment" && !commandCheck) return;
+
+  const issueNumber = commandCheck
+    ? commandCheck.issue.number
+    : getInput("issue_number")
+      ? parseInt(getInput("issue_number"), 10)
+      : (context?.payload?.issue?.number ??
+        context?.payload?.pull_request?.number ??
+        context?.payload?.discussion?.number);
+  const issueBody = commandCheck?.issue.body ?? getInput("issue_body");
+  const issueTitle = commandCheck?.issue.title ?? getInput("issue_title");
+
+  // Pull requests are often opened without a description; their title and
+  // changed files are compared instead
+  if (!issueNumber || !issueTitle || (!issueBody && !pullRequestMode)) {
+    throw new Error("Required inputs are not set");
+  }
 
-  const currentIssueSummary = buildCurrentIssueSummary(
+  const config = {
+    ...settings,
+    issueStateFilter: commandCheck?.issueStateFilter ?? issueStateFilter,
     issueNumber,
     issueTitle,
     issueBody,
-  );
-  const batches = chunk(issuesToCompare, batchSize);
+  };
 
-  console.log(
-    `Processing ${batches.length} batch(es) of candidate issues (batch size = ${batchSize}).`,
+  // Log configuration summary
+  summary.addHeading("Configuration Summary");
+  summary.addRaw(`- Config File: ${configPath}\n`);
+  summary.addRaw(`- Owner: ${owner}\n`);
+  summary.addRaw(`- Repo: ${repo}\n`);
+  summary.addRaw(`- Issue Number: ${issueNumber}\n`);
+  summary.addRaw(
+    `- Mode: ${pullRequestMode ? "Pull request duplicates" : discussionMode ? "Discussion duplicates" : "Issue duplicates"}\n`,
+  );
+  summary.addRaw(`- Include Discussions: ${includeDiscussions}\n`);
+  summary.addRaw(`- Issue State Filter: ${config.issueStateFilter}\n`);
+  summary.addRaw(`- Include Pull Requests: ${includePullRequests}\n`);
+  summary.addRaw(`- Time Filter: ${timeFilter || "None"}\n`);
+  summary.addRaw(
+    `- Candidate Filters: ${describeCandidateFilters(candidateFilters)}\n`,
+  );
+  summary.addRaw(
+    `- Candidate Repositories: ${candidateRepos.length > 0 ? candidateRepos.join(", ") : "None"}\n`,
+  );
+  summary.addRaw(
+    `- Labels to Add: ${labels.length > 0 ? labels.join(", ") : "None"}\n`,
+  );
+  summary.addRaw(`- Min Likelihood: ${minLikelihood}\n`);
+  summary.addRaw(`- Require Evidence: ${requireEvidence}\n`);
+  summary.addRaw(`- Match Error Signatures: ${matchErrorSignatures}\n`);
+  summary.addRaw(`- Rerank: ${rerank}\n`);
+  summary.addRaw(`- Max Results: ${maxResults}\n`);
+  summary.addRaw(
+    `- Likelihood Labels: ${getInput("likelihood_labels") || "None"}\n`,
+  );
+  summary.addRaw(`- AI Provider: ${provider}\n`);
+  summary.addRaw(`- AI Endpoint: ${endpoint}\n`);
+  summary.addRaw(`- AI Model: ${modelName}\n`);
+  summary.addRaw(`- Max Tokens: ${maxTokens}\n`);
+  summary.addRaw(`- Structured Output: ${structuredOutput}\n`);
+  summary.addRaw(`- Max Retries: ${maxRetries}\n`);
+  summary.addRaw(`- Fail on AI Error: ${failOnAiError}\n`);
+  summary.addRaw(`- Concurrency: ${concurrency}\n`);
+  summary.addRaw(`- Batch Size: ${batchSize}\n`);
+  summary.addRaw(`- Max Input Tokens: ${maxInputTokens}\n`);
+  summary.addRaw(`- Max Issue Tokens: ${maxIssueTokens}\n`);
+  summary.addRaw(
+    `- Max Candidates: ${maxCandidates === 0 ? "No limit" : maxCandidates}\n`,
+  );
+  summary.addRaw(`- Min Lexical Score: ${minLexicalScore}\n`);
+  summary.addRaw(
+    `- Include Comments: ${includeComments ? `up to ${maxComments} per candidate` : "No"}\n`,
+  );
+  summary.addRaw(`- Comment Mode: ${commentMode}\n`);
+  summary.addRaw(
+    `- Auto Close: ${autoClose ? `after ${autoCloseDelayHours}h (label: ${autoCloseLabel})` : "Disabled"}\n`,
   );
-  summary.addRaw(`- Total Batches: ${batches.length}\n`);
-
-  const aiOutputs: string[] = [];
 
-  for (let i = 0; i < batches.length; i++) {
-    const batch = batches[i]!; // non-null assertion, batches elements are defined
-    const batchId = (i + 1) / batches.length;
-    const userContent = buildBatchUserContent(
-      currentIssueSummary,
-      batchId,
-      batch,
+  // Removes the comment left by a previous run once no duplicates are found
+  const removeStaleComment = async () => {
+    if (commentMode !== "upsert" || discussionMode) return;
+    const removed = await upsertIssueComment({
+      octokit,
+      owner,
+      repo,
+      issueNumber,
+    });
+    summary.addRaw(
+      removed
+        ? `- Previous duplicate comment removed (if any).\n`
+        : `- Failed to remove previous duplicate comment.\n`,
     );
+  };
 
-    console.log(
-      `User Content (batch ${i + 1}): `,
-      userContent.slice(0, 200),
-      "...",
-    );
+  // Pull requests are compared with a fresh list of open pull requests
+  const cache =
+    cacheDir && !pullRequestMode
+      ? await openCache({ octokit, owner, repo, cacheDir, summary })
+      : undefined;
+  // Discussions have no labels or reactions to learn from
+  const feedback =
+    cacheDir && !discussionMode
+      ? await openFeedbackStore({
+          octokit,
+          owner,
+          repo,
+          cacheDir,
+          watchedLabels: [
+            ...labels,
+            ...Object.values(likelihoodLabels).flat(),
+            ...(autoClose ? [autoCloseLabel] : []),
+          ],
+          summary,
+        })
+      : undefined;
 
-    const aiResponse = await aiInference({
-      token,
-      content: userContent,
-      systemPromptMsg,
-      endpoint,
-      maxTokens,
-      modelName,
+  const { issuesToCompare, findings, aiErrors, failed } =
+    await runDuplicateCheck({
+      octokit,
+      config,
+      // Search queries can't be applied to the cached corpus
+      candidates:
+        cache && !config.candidateFilters.searchQuery
+          ? filterIssueCorpus(cache.issues, config)
+          : undefined,
+      verdictCache: cache?.verdictCache,
+      suppressedPairs: feedback && getSuppressedPairs(feedback),
+      summary,
     });
-
-    if (aiResponse) {
-      aiOutputs.push(aiResponse);
-      console.log(`AI response (batch ${i + 1}):`, aiResponse.slice(0, 200));
-      summary.addRaw(`- Batch ${i + 1}: AI response received\n`);
-    } else {
-      console.log(`No AI response for batch ${i + 1}.`);
-      summary.addRaw(`- Batch ${i + 1}: No AI response\n`);
-    }
+  if (cacheDir && cache) await saveCache(cacheDir, cache.verdictCache, summary);
+  if (cacheDir && feedback) {
+    await saveFeedbackStore(cacheDir, owner, repo, feedback);
   }
 
-  // -------- Parse & Process AI Responses ---------------------------------------
-  summary.addHeading("Parse & Process AI Responses");
-  let parsedOutputs: ParsedOutput[] = [];
-  for (const response of aiOutputs) {
-    try {
-      const parsed = JSON.parse(response);
-      console.log("Parsed AI Output:", parsed);
-      if (verifyJsonResponse(parsed)) {
-        parsedOutputs = parsed?.length
-          ? parsedOutputs.concat(parsed)
-          : parsedOutputs;
-      } else {
-        console.warn(
-          "AI Output did not pass requested formatted response:",
-          parsed,
-        );
-        summary.addRaw(
-          `- AI Output did not pass requested format check logs for details.\n`,
-        );
-        continue;
-      }
-    } catch (error) {
-      console.error("Error parsing AI Output:", error);
-      summary.addRaw(
-        `- Error parsing AI response: ${error instanceof Error ? error.message : "Unknown error"}\n`,
-      );
-      continue;
-    }
+  // Identical error signatures are still applied when inference fails
+  const finish = () => {
+    summary.write();
+    if (failed) setFailed(`AI inference failed: ${aiErrors.join("; ")}`);
+  };
+  if (failed && findings.length === 0) {
+    finish();
+    return;
+  }
+  if (failed) {
+    summary.addRaw(
+      `- AI inference failed, applying ${findings.length} identical error signature(s) only.\n`,
+    );
   }
 
-  console.log(`Total parsed similar issues from AI: ${parsedOutputs.length}`);
-  summary.addRaw(
-    `- Total Parsed Similar Issues from AI: ${parsedOutputs.length}\n`,
-  );
+  setDuplicateOutputs(findings, issuesToCompare);
 
-  if (parsedOutputs.length === 0) {
-    console.log("No similar issues identified by AI.");
-    summary.addRaw(`- No similar issues identified by AI.\n`);
+  if (findings.length === 0) {
+    await removeStaleComment();
+    if (autoClose && !pullRequestMode && !discussionMode) {
+      await cancelAutoClose({
+        octokit,
+        owner,
+        repo,
+        issueNumber,
+        label: autoCloseLabel,
+        summary,
+      });
+    }
     summary.write();
     return;
   }
 
-  // -------- Create Comment ---------------------------------------
-  const commentBody = buildCommentBody(parsedOutputs, issuesToCompare);
-
   summary.addHeading("Comment & Labels Summary");
+  const commentBody = buildCommentBody(
+    findings,
+    issuesToCompare,
+    maxResults,
+    commentTemplate,
+  );
   summary.addRaw(commentBody);
 
-  if (postComment) {
-    console.log("Posting comment...");
-    const commentSuccess = await createIssueComment({
-      octokit,
-      owner,
-      repo,
-      issueNumber,
-      body: commentBody,
-    });
-    if (commentSuccess) {
-      summary.addRaw(`- Comment posted successfully.\n`);
-    } else {
-      summary.addRaw(`- Failed to post comment.\n`);
+  // Discussions only get the comment: no labels, no auto-close
+  if (discussionMode) {
+    const discussionId = context?.payload?.discussion?.node_id;
+    if (commentMode !== "none" && discussionId) {
+      const commentSuccess = await createDiscussionComment({
+        octokit,
+        discussionId,
+        body: commentBody,
+      });
+      summary.addRaw(
+        commentSuccess
+          ? `- Discussion comment posted successfully.\n`
+          : `- Failed to post discussion comment.\n`,
+      );
     }
+    finish();
+    return;
   }
 
-  if (labels.length > 0) {
-    const addLabelsSuccess = await addIssueLabels({
-      octokit,
-      owner,
-      repo,
-      issueNumber,
-      labels,
-    });
-    if (addLabelsSuccess) {
-      summary.addRaw(`- Labels added: ${labels.join(", ")}\n`);
-    } else {
-      summary.addRaw(`- Failed to add labels: ${labels.join(", ")}\n`);
-    }
+  await applyFindings({
+    octokit,
+    owner,
+    repo,
+    issueNumber,
+    findings,
+    issuesToCompare,
+    commentMode,
+    maxResults,
+    commentTemplate,
+    labels,
+    likelihoodLabels,
+    // Partial results of a failed run neither schedule nor cancel a close
+    autoClose:
+      autoClose && !pullRequestMode && !failed
+        ? { label: autoCloseLabel, delayHours: autoCloseDelayHours }
+        : undefined,
+    summary,
+  });
+  if (cacheDir && feedback) {
+    recordSuggestion(feedback, issueNumber, findings.slice(0, maxResults));
+    await saveFeedbackStore(cacheDir, owner, repo, feedback);
   }
-  console.log("Action completed successfully.");
-  summary.addRaw(`- Action completed successfully.\n`);
-  summary.write();
+
+  if (!failed) {
+    console.log("Action completed successfully.");
+    summary.addRaw(`- Action completed successfully.\n`);
+  }
+  finish();
   return;
 };
 
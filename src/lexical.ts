@@ -0,0 +1,187 @@
+import { formatIssueRef } from "./utils";
+import type { Issue, LexicalRanking, ScoredIssue } from "./types";
+
+const STOP_WORDS = new Set([
+  "a",
+  "about",
+  "after",
+  "all",
+  "also",
+  "an",
+  "and",
+  "any",
+  "are",
+  "as",
+  "at",
+  "be",
+  "been",
+  "but",
+  "by",
+  "can",
+  "could",
+  "do",
+  "does",
+  "for",
+  "from",
+  "has",
+  "have",
+  "how",
+  "if",
+  "in",
+  "into",
+  "is",
+  "it",
+  "its",
+  "not",
+  "of",
+  "on",
+  "or",
+  "should",
+  "so",
+  "that",
+  "the",
+  "then",
+  "there",
+  "this",
+  "to",
+  "was",
+  "we",
+  "were",
+  "what",
+  "when",
+  "which",
+  "will",
+  "with",
+  "would",
+  "you",
+]);
+
+export const tokenize = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .split(/[^a-z0-9_]+/)
+    .filter((token) => token.length > 1 && !STOP_WORDS.has(token));
+
+// Titles are short but carry most of the signal, so they are counted twice.
+const documentTokens = (
+  title: string,
+  body: string,
+  files: string[] = [],
+): string[] => {
+  const titleTokens = tokenize(title);
+  return [
+    ...titleTokens,
+    ...titleTokens,
+    ...tokenize(body),
+    ...tokenize(files.join(" ")),
+  ];
+};
+
+const termFrequencies = (tokens: string[]): Map<string, number> => {
+  const counts = new Map<string, number>();
+  for (const token of tokens) counts.set(token, (counts.get(token) ?? 0) + 1);
+  return counts;
+};
+
+const weightVector = (
+  counts: Map<string, number>,
+  idf: Map<string, number>,
+): Map<string, number> => {
+  const vector = new Map<string, number>();
+  for (const [term, count] of counts) {
+    vector.set(term, (1 + Math.log(count)) * (idf.get(term) ?? 0));
+  }
+  return vector;
+};
+
+const norm = (vector: Map<string, number>): number =>
+  Math.sqrt([...vector.values()].reduce((sum, w) => sum + w * w, 0));
+
+const cosine = (
+  a: Map<string, number>,
+  aNorm: number,
+  b: Map<string, number>,
+): number => {
+  const bNorm = norm(b);
+  if (aNorm === 0 || bNorm === 0) return 0;
+  let dot = 0;
+  for (const [term, weight] of a) dot += weight * (b.get(term) ?? 0);
+  return dot / (aNorm * bNorm);
+};
+
+/**
+ * Scores every candidate against the current issue using TF-IDF cosine
+ * similarity (0..1) over title, body and changed files, then splits the list
+ * into the candidates worth sending to the model and the ones that are dropped.
+ * A `maxCandidates` of 0 keeps every candidate that meets `minScore`.
+ */
+export const rankCandidates = ({
+  title,
+  body,
+  files,
+  candidates,
+  maxCandidates,
+  minScore,
+}: {
+  title: string;
+  body: string;
+  files?: string[];
+  candidates: Issue[];
+  maxCandidates: number;
+  minScore: number;
+}): LexicalRanking => {
+  const queryCounts = termFrequencies(documentTokens(title, body, files));
+  const candidateCounts = candidates.map((issue) =>
+    termFrequencies(documentTokens(issue.title, issue.body, issue.files)),
+  );
+
+  const documentFrequency = new Map<string, number>();
+  for (const counts of [queryCounts, ...candidateCounts]) {
+    for (const term of counts.keys()) {
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    }
+  }
+  const totalDocuments = candidates.length + 1;
+  const idf = new Map<string, number>();
+  for (const [term, df] of documentFrequency) {
+    idf.set(term, Math.log((totalDocuments + 1) / (df + 1)) + 1);
+  }
+
+  const queryVector = weightVector(queryCounts, idf);
+  const queryNorm = norm(queryVector);
+
+  const scored: ScoredIssue[] = candidates
+    .map((issue, i) => ({
+      issue,
+      score: cosine(
+        queryVector,
+        queryNorm,
+        weightVector(candidateCounts[i]!, idf),
+      ),
+    }))
+    .sort((a, b) => b.score - a.score || b.issue.number - a.issue.number);
+
+  const kept: ScoredIssue[] = [];
+  const dropped: ScoredIssue[] = [];
+  for (const entry of scored) {
+    const withinLimit = maxCandidates === 0 || kept.length < maxCandidates;
+    if (withinLimit && entry.score >= minScore) {
+      kept.push(entry);
+    } else {
+      dropped.push(entry);
+    }
+  }
+
+  return { kept, dropped };
+};
+
+export const formatScoreList = (scored: ScoredIssue[]): string => {
+  if (scored.length === 0) return "None\n";
+  return scored
+    .map(
+      ({ issue, score }) =>
+        `- ${formatIssueRef(issue.number, issue.repo)} ${issue.title} (${score.toFixed(3)})`,
+    )
+    .join("\n")
+    .concat("\n");
+};
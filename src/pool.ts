@@ -0,0 +1,45 @@
+import type { WorkerPool } from "./types";
+
+/**
+ * Creates a bounded worker pool. `map` runs tasks with at most `limit` in
+ * flight and resolves with the results in input order. `throttle` halves the
+ * limit (down to 1), e.g. when the endpoint starts rate limiting.
+ */
+export const createWorkerPool = (concurrency: number): WorkerPool => {
+  let limit = Math.max(1, concurrency);
+  let active = 0;
+  const waiting: (() => void)[] = [];
+
+  const acquire = async () => {
+    while (active >= limit) {
+      await new Promise<void>((resolve) => waiting.push(resolve));
+    }
+    active += 1;
+  };
+
+  const release = () => {
+    active -= 1;
+    waiting.shift()?.();
+  };
+
+  return {
+    get limit() {
+      return limit;
+    },
+    throttle: () => {
+      limit = Math.max(1, Math.floor(limit / 2));
+      return limit;
+    },
+    map: (items, task) =>
+      Promise.all(
+        items.map(async (item, index) => {
+          await acquire();
+          try {
+            return await task(item, index);
+          } finally {
+            release();
+          }
+        }),
+      ),
+  };
+};
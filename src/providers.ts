@@ -0,0 +1,217 @@
+import ModelClient, { isUnexpected } from "@azure-rest/ai-inference";
+import { AzureKeyCredential } from "@azure/core-auth";
+import {
+  duplicatesJsonSchema,
+  parseRetryAfterMs,
+  classifyAiError,
+} from "./utils";
+import type {
+  AiErrorKind,
+  AiProvider,
+  ChatCompletionFn,
+  ChatCompletionRequest,
+} from "./types";
+
+export class AiInferenceError extends Error {
+  constructor(
+    message: string,
+    readonly kind: AiErrorKind,
+    readonly status?: number,
+    readonly retryAfterMs?: number,
+  ) {
+    super(message);
+    this.name = "AiInferenceError";
+  }
+}
+
+export const DEFAULT_ENDPOINTS: Record<AiProvider, string> = {
+  azure: "https://models.github.ai/inference",
+  openai: "https://api.openai.com/v1",
+  anthropic: "https://api.anthropic.com",
+  ollama: "http://localhost:11434",
+};
+
+const ANTHROPIC_VERSION = "2023-06-01";
+
+const toAiInferenceError = (
+  status: number,
+  headers: Record<string, string | undefined>,
+  message: string,
+): AiInferenceError => {
+  const retryAfterMs = parseRetryAfterMs(headers);
+  return new AiInferenceError(
+    message,
+    classifyAiError({ status, retryAfterMs, message }),
+    status,
+    retryAfterMs,
+  );
+};
+
+const toChatMessages = ({ systemPrompt, messages }: ChatCompletionRequest) => [
+  { role: "system", content: systemPrompt },
+  ...messages,
+];
+
+const postJson = async (
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  // Pulls a readable message out of the provider's error body
+  getErrorMessage: (body: unknown) => string | undefined,
+): Promise<unknown> => {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "content-type": "application/json", ...headers },
+    body: JSON.stringify(body),
+  });
+  const text = await response.text();
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    parsed = undefined;
+  }
+
+  if (!response.ok) {
+    const message =
+      getErrorMessage(parsed) ??
+      `An error occurred while fetching the response (${response.status}): ${text}`;
+    throw toAiInferenceError(
+      response.status,
+      Object.fromEntries(response.headers),
+      message,
+    );
+  }
+  if (parsed === undefined) {
+    throw new AiInferenceError(`Invalid JSON response: ${text}`, "fatal");
+  }
+  return parsed;
+};
+
+const joinUrl = (endpoint: string, path: string) =>
+  `${endpoint.replace(/\/+$/, "")}${path}`;
+
+// Azure AI Inference, which also serves GitHub Models
+const azureCompletion: ChatCompletionFn = async (request) => {
+  const { endpoint, modelName, maxTokens, token, structuredOutput } = request;
+  // Plain http is only used for local proxies and test servers
+  const client = ModelClient(endpoint, new AzureKeyCredential(token), {
+    allowInsecureConnection: endpoint.startsWith("http://"),
+  });
+
+  const response = await client.path("/chat/completions").post({
+    body: {
+      messages: toChatMessages(request),
+      max_tokens: maxTokens,
+      model: modelName,
+      ...(structuredOutput
+        ? {
+            response_format: {
+              type: "json_schema",
+              json_schema: duplicatesJsonSchema,
+            },
+          }
+        : {}),
+    },
+  });
+
+  if (isUnexpected(response)) {
+    const message = response.body.error
+      ? `${response.body.error.code}: ${response.body.error.message}`
+      : `An error occurred while fetching the response (${response.status}): ${JSON.stringify(response.body)}`;
+    throw toAiInferenceError(
+      parseInt(response.status, 10),
+      response.headers,
+      message,
+    );
+  }
+
+  return response.body.choices?.[0]?.message?.content ?? undefined;
+};
+
+// Any endpoint implementing the OpenAI chat completions API
+const openAiCompletion: ChatCompletionFn = async (request) => {
+  const { endpoint, modelName, maxTokens, token, structuredOutput } = request;
+  const body = (await postJson(
+    joinUrl(endpoint, "/chat/completions"),
+    token ? { authorization: `Bearer ${token}` } : {},
+    {
+      messages: toChatMessages(request),
+      max_tokens: maxTokens,
+      model: modelName,
+      ...(structuredOutput
+        ? {
+            response_format: {
+              type: "json_schema",
+              json_schema: duplicatesJsonSchema,
+            },
+          }
+        : {}),
+    },
+    (error) => (error as { error?: { message?: string } })?.error?.message,
+  )) as { choices?: { message?: { content?: string | null } }[] };
+
+  return body.choices?.[0]?.message?.content ?? undefined;
+};
+
+// Anthropic messages API; it has no JSON-schema response format, so
+// structuredOutput is ignored and the reply goes through the usual parsing
+const anthropicCompletion: ChatCompletionFn = async ({
+  endpoint,
+  modelName,
+  maxTokens,
+  token,
+  systemPrompt,
+  messages,
+}) => {
+  const body = (await postJson(
+    joinUrl(endpoint, "/v1/messages"),
+    { "x-api-key": token, "anthropic-version": ANTHROPIC_VERSION },
+    {
+      model: modelName,
+      max_tokens: maxTokens,
+      system: systemPrompt,
+      messages,
+    },
+    (error) => {
+      const { type, message } =
+        (error as { error?: { type?: string; message?: string } })?.error ?? {};
+      return message ? `${type}: ${message}` : undefined;
+    },
+  )) as { content?: { type: string; text?: string }[] };
+
+  const text = (body.content ?? [])
+    .filter((block) => block.type === "text")
+    .map((block) => block.text ?? "")
+    .join("");
+  return text || undefined;
+};
+
+// Ollama's native chat API, e.g. a local model on a self-hosted runner
+const ollamaCompletion: ChatCompletionFn = async (request) => {
+  const { endpoint, modelName, maxTokens, token, structuredOutput } = request;
+  const body = (await postJson(
+    joinUrl(endpoint, "/api/chat"),
+    token ? { authorization: `Bearer ${token}` } : {},
+    {
+      model: modelName,
+      messages: toChatMessages(request),
+      stream: false,
+      options: { num_predict: maxTokens },
+      ...(structuredOutput ? { format: duplicatesJsonSchema.schema } : {}),
+    },
+    (error) => (error as { error?: string })?.error,
+  )) as { message?: { content?: string } };
+
+  return body.message?.content || undefined;
+};
+
+const providers: Record<AiProvider, ChatCompletionFn> = {
+  azure: azureCompletion,
+  openai: openAiCompletion,
+  anthropic: anthropicCompletion,
+  ollama: ollamaCompletion,
+};
+
+export const getChatCompletion = (provider: AiProvider): ChatCompletionFn =>
+  providers[provider];
@@ -0,0 +1,269 @@
+import { writeFile } from "node:fs/promises";
+import type { GitHub } from "@actions/github/lib/utils";
+import { runDuplicateCheck, silentSummary } from "./check";
+import { likelihoodRank, normalizeLikelihood } from "./utils";
+import type {
+  CheckSettings,
+  DuplicateCluster,
+  Issue,
+  RunSummary,
+  SweepMatch,
+  VerdictCache,
+} from "./types";
+
+export const SWEEP_REPORT_MARKER = "<!-- duplicate-identifier-sweep -->";
+
+/**
+ * Picks `size` issues at random (all of them when `size` is 0 or larger than
+ * the list), keeping their original order.
+ */
+export const sampleIssues = (
+  issues: Issue[],
+  size: number,
+  random: () => number = Math.random,
+): Issue[] => {
+  if (size <= 0 || size >= issues.length) return issues;
+
+  const indices = issues.map((_, i) => i);
+  for (let i = indices.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [indices[i], indices[j]] = [indices[j]!, indices[i]!];
+  }
+  const picked = new Set(indices.slice(0, size));
+  return issues.filter((_, i) => picked.has(i));
+};
+
+/**
+ * Merges pairwise matches into clusters of connected issues (union-find).
+ * Clusters are ordered by strongest likelihood, then size, and numbered from 1.
+ */
+export const clusterMatches = (matches: SweepMatch[]): DuplicateCluster[] => {
+  const parent = new Map<number, number>();
+  const find = (issue: number): number => {
+    const next = parent.get(issue) ?? issue;
+    if (next === issue) return issue;
+    const root = find(next);
+    parent.set(issue, root);
+    return root;
+  };
+
+  for (const { issue, duplicate } of matches) {
+    const a = find(issue);
+    const b = find(duplicate);
+    // The lower (older) issue number becomes the root
+    if (a !== b) parent.set(Math.max(a, b), Math.min(a, b));
+  }
+
+  const groups = new Map<number, SweepMatch[]>();
+  for (const match of matches) {
+    const root = find(match.issue);
+    groups.set(root, [...(groups.get(root) ?? []), match]);
+  }
+
+  return [...groups.values()]
+    .map((group) => ({
+      issues: [
+        ...new Set(group.flatMap(({ issue, duplicate }) => [issue, duplicate])),
+      ].sort((a, b) => a - b),
+      likelihood: group.reduce(
+        (top, { likelihood }) =>
+          likelihoodRank[normalizeLikelihood(likelihood)] > likelihoodRank[top]
+            ? normalizeLikelihood(likelihood)
+            : top,
+        normalizeLikelihood(group[0]!.likelihood),
+      ),
+      matches: group,
+    }))
+    .sort(
+      (a, b) =>
+        likelihoodRank[b.likelihood] - likelihoodRank[a.likelihood] ||
+        b.issues.length - a.issues.length ||
+        a.issues[0]! - b.issues[0]!,
+    )
+    .map((cluster, i) => ({ id: i + 1, ...cluster }));
+};
+
+const findIssue = (issues: Issue[], number: number) =>
+  issues.find((issue) => issue.number === number);
+
+export const buildClusterReport = (
+  clusters: DuplicateCluster[],
+  issues: Issue[],
+): string => {
+  if (clusters.length === 0) return "No duplicate clusters found.\n";
+
+  return clusters
+    .map((cluster) => {
+      const lines = cluster.issues.map((number) => {
+        const issue = findIssue(issues, number);
+        return `- #${number} ${issue?.title ?? ""}`.trimEnd();
+      });
+      const links = cluster.matches.map(
+        ({ issue, duplicate, likelihood, reason }) =>
+          `  - #${issue} ↔ #${duplicate}: ${likelihood}${reason ? ` (${reason})` : ""}`,
+      );
+      return [
+        `### Cluster ${cluster.id} (${cluster.issues.length} issues, ${cluster.likelihood})`,
+        ...lines,
+        "",
+        "<details><summary>Matches</summary>",
+        "",
+        ...links,
+        "",
+        "</details>",
+        "",
+      ].join("\n");
+    })
+    .join("\n");
+};
+
+const escapeCsv = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One row per clustered issue
+export const buildClusterCsv = (
+  clusters: DuplicateCluster[],
+  issues: Issue[],
+): string => {
+  const rows = clusters.flatMap((cluster) =>
+    cluster.issues.map((number) => {
+      const issue = findIssue(issues, number);
+      return [
+        cluster.id,
+        number,
+        issue?.title ?? "",
+        issue?.state ?? "",
+        issue?.url ?? "",
+        cluster.likelihood,
+      ];
+    }),
+  );
+  return [
+    "cluster,issue,title,state,url,cluster_likelihood",
+    ...rows.map((row) => row.map(escapeCsv).join(",")),
+  ].join("\n");
+};
+
+export const buildClusterJson = (
+  clusters: DuplicateCluster[],
+  issues: Issue[],
+): string =>
+  JSON.stringify(
+    clusters.map((cluster) => ({
+      ...cluster,
+      issues: cluster.issues.map((number) => {
+        const issue = findIssue(issues, number);
+        return {
+          number,
+          title: issue?.title ?? "",
+          state: issue?.state ?? "",
+          url: issue?.url ?? "",
+        };
+      }),
+    })),
+    null,
+    2,
+  );
+
+// Issue bodies are limited to 65536 characters
+const MAX_ISSUE_BODY_LENGTH = 65000;
+
+export const buildTrackingIssueBody = (
+  clusters: DuplicateCluster[],
+  issues: Issue[],
+  checked: number,
+): string => {
+  const header = `${SWEEP_REPORT_MARKER}\nChecked ${checked} issue(s) and found ${clusters.length} duplicate cluster(s).\n\n`;
+  const report = buildClusterReport(clusters, issues);
+  if (header.length + report.length <= MAX_ISSUE_BODY_LENGTH) {
+    return header + report;
+  }
+  const note = "\n_Report truncated, see the report file for all clusters._\n";
+  const cut = report.lastIndexOf(
+    "\n### Cluster",
+    MAX_ISSUE_BODY_LENGTH - header.length - note.length,
+  );
+  return header + report.slice(0, Math.max(cut, 0)) + note;
+};
+
+// The format follows the file extension: .csv, anything else is JSON
+export const writeClusterReport = async (
+  path: string,
+  clusters: DuplicateCluster[],
+  issues: Issue[],
+) => {
+  const content = path.toLowerCase().endsWith(".csv")
+    ? buildClusterCsv(clusters, issues)
+    : buildClusterJson(clusters, issues);
+  await writeFile(path, `${content}\n`);
+};
+
+/**
+ * Checks every target issue against the candidates with the regular duplicate
+ * check, so candidates are batched and prompted like any check (`batchByTokens`
+ * with `chunk`, `buildBatchUserContent`). Pairs are only compared once: a
+ * target is not offered as a candidate to the targets checked after it. Stops
+ * early when a check fails.
+ * Pairs rejected by maintainers are left out of the matches.
+ */
+export const runSweep = async ({
+  octokit,
+  config,
+  targets,
+  candidates,
+  verdictCache,
+  suppressedPairs,
+  summary,
+}: {
+  octokit: InstanceType<typeof GitHub>;
+  config: CheckSettings;
+  targets: Issue[];
+  candidates: Issue[];
+  verdictCache?: VerdictCache;
+  suppressedPairs?: Set<string>;
+  summary: RunSummary;
+}): Promise<{ matches: SweepMatch[]; checked: number; aiErrors: string[] }> => {
+  const matches: SweepMatch[] = [];
+  const checked = new Set<number>();
+
+  for (const target of targets) {
+    const { findings, aiErrors, failed } = await runDuplicateCheck({
+      octokit,
+      config: {
+        ...config,
+        issueNumber: target.number,
+        issueTitle: target.title,
+        issueBody: target.body,
+      },
+      candidates: candidates.filter(
+        ({ number }) => number !== target.number && !checked.has(number),
+      ),
+      verdictCache,
+      suppressedPairs,
+      // Per-issue stats would flood the job summary
+      summary: silentSummary,
+    });
+    checked.add(target.number);
+
+    if (failed) {
+      summary.addRaw(`- Sweep stopped at #${target.number} after AI errors.\n`);
+      return { matches, checked: checked.size, aiErrors };
+    }
+
+    console.log(
+      `Sweep: #${target.number} has ${findings.length} match(es) (${checked.size}/${targets.length}).`,
+    );
+    for (const { issue, likelihood, reason } of findings) {
+      matches.push({
+        issue: target.number,
+        duplicate: issue,
+        likelihood: normalizeLikelihood(likelihood),
+        ...(reason ? { reason } : {}),
+      });
+    }
+  }
+
+  return { matches, checked: checked.size, aiErrors: [] };
+};
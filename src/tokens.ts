@@ -0,0 +1,101 @@
+import { CANDIDATE_SEPARATOR, chunk, formatCandidate } from "./utils";
+import type { Issue } from "./types";
+
+// Rough heuristic shared by most tokenizers for English text and code
+const CHARS_PER_TOKEN = 4;
+
+const TRUNCATION_MARKER = "[...]";
+
+const HEADING_PATTERN = /^\s*#{1,6}\s/;
+// "error"/"exception" also match inside names such as TypeError or IOException
+const ERROR_PATTERN =
+  /error|exception|\b(fail(ed|ure)?|fatal|panic|traceback|stack ?trace|caused by)\b/i;
+
+export const estimateTokens = (text: string): number =>
+  Math.ceil(text.length / CHARS_PER_TOKEN);
+
+/**
+ * Shortens an issue body to roughly `maxTokens`. The opening of the body is
+ * kept first (up to half the budget), then markdown headings and lines that
+ * look like errors, in their original order, with `[...]` marking the gaps.
+ */
+export const truncateIssueBody = (body: string, maxTokens: number): string => {
+  if (estimateTokens(body) <= maxTokens) return body;
+
+  const maxChars = maxTokens * CHARS_PER_TOKEN;
+  const lines = body.split("\n");
+  const kept = new Map<number, string>();
+  let used = 0;
+
+  const keep = (index: number, line: string) => {
+    const cost = line.length + 1;
+    if (used + cost > maxChars) return false;
+    kept.set(index, line);
+    used += cost;
+    return true;
+  };
+
+  // Opening lines, slicing a single oversized first line if needed
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]!;
+    if (used + line.length + 1 > maxChars / 2) {
+      if (i === 0) keep(0, line.slice(0, Math.floor(maxChars / 2)));
+      break;
+    }
+    keep(i, line);
+  }
+
+  for (const pattern of [HEADING_PATTERN, ERROR_PATTERN]) {
+    lines.forEach((line, i) => {
+      if (!kept.has(i) && pattern.test(line)) keep(i, line);
+    });
+  }
+
+  const output: string[] = [];
+  let previous = -1;
+  for (const index of [...kept.keys()].sort((a, b) => a - b)) {
+    if (index !== previous + 1) output.push(TRUNCATION_MARKER);
+    output.push(kept.get(index)!);
+    previous = index;
+  }
+  if (previous !== lines.length - 1 || kept.get(previous) !== lines[previous]) {
+    output.push(TRUNCATION_MARKER);
+  }
+  return output.join("\n");
+};
+
+export const estimateCandidateTokens = (issue: Issue): number =>
+  estimateTokens(formatCandidate(issue) + CANDIDATE_SEPARATOR);
+
+export const estimateBatchTokens = (batch: Issue[]): number =>
+  batch.reduce((total, issue) => total + estimateCandidateTokens(issue), 0);
+
+/**
+ * Groups candidates into batches whose estimated prompt size stays within
+ * `maxTokens`, then splits them with `chunk` so no batch has more than
+ * `maxBatchSize` candidates. A candidate larger than the budget on its own
+ * still gets a batch of its own.
+ */
+export const batchByTokens = (
+  issues: Issue[],
+  maxTokens: number,
+  maxBatchSize: number,
+): Issue[][] => {
+  const batches: Issue[][] = [];
+  let current: Issue[] = [];
+  let currentTokens = 0;
+
+  for (const issue of issues) {
+    const tokens = estimateCandidateTokens(issue);
+    if (current.length > 0 && currentTokens + tokens > maxTokens) {
+      batches.push(current);
+      current = [];
+      currentTokens = 0;
+    }
+    current.push(issue);
+    currentTokens += tokens;
+  }
+  if (current.length > 0) batches.push(current);
+
+  return batches.flatMap((batch) => chunk(batch, maxBatchSize));
+};
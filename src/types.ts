@@ -5,32 +5,158 @@ export type AiInferenceFn = (
 ) => Promise<string | undefined>;
 
 interface AiInferenceParams {
+  // "azure" (Azure AI Inference / GitHub Models) by default
+  provider?: AiProvider;
   systemPromptMsg: string;
   endpoint: string;
   modelName: string;
   maxTokens: number;
   token: string;
   content: string;
+  // Follow-up turns sent after the user content, e.g. a repair request
+  messages?: ChatMessage[];
+  // Request JSON-schema constrained output from endpoints that support it
+  structuredOutput?: boolean;
+  // Retries for retryable errors (rate limits, 5xx, network), 0 by default
+  maxRetries?: number;
+  // Called before each retry, e.g. to slow down on rate limits
+  onRetry?: (error: { kind: AiErrorKind; status?: number }) => void;
+  // Progress output, console.log by default
+  log?: LogFn;
 }
 
+// Same signature as console.log, e.g. console.error to keep stdout clean
+export type LogFn = (...args: unknown[]) => void;
+
+export type AiErrorKind = "retryable" | "quota" | "fatal";
+
+export type AiProvider = "azure" | "openai" | "anthropic" | "ollama";
+
+export type ChatCompletionFn = (
+  request: ChatCompletionRequest,
+) => Promise<string | undefined>;
+
+export interface ChatCompletionRequest {
+  endpoint: string;
+  modelName: string;
+  maxTokens: number;
+  token: string;
+  systemPrompt: string;
+  messages: ChatMessage[];
+  structuredOutput?: boolean;
+}
+
+export interface ChatMessage {
+  role: "user" | "assistant";
+  content: string;
+}
+
+export type InferBatchFn = (params: AiInferenceParams) => Promise<BatchResult>;
+
+export interface BatchResult {
+  // "repaired" batches only passed validation after the repair follow-up
+  status: "ok" | "repaired" | "dropped" | "no-response" | "failed";
+  outputs: ParsedOutput[];
+  error?: { kind: AiErrorKind; message: string };
+}
+
+export type IssueKind = "issue" | "pull_request" | "discussion";
+
 export interface Issue {
   number: number;
+  // "owner/repo" of candidates from another repository
+  repo?: string;
   title: string;
   body: string;
   state: string;
+  kind: IssueKind;
+  url: string;
   createdAt: string;
   updatedAt: string;
+  stateReason?: string;
+  author?: string;
+  labels?: string[];
+  // Milestone title
+  milestone?: string;
+  // Discussions only, whether an answer was marked
+  answered?: boolean;
+  files?: string[];
+  // Total number of comments, as reported by the issue list
+  commentCount?: number;
+  // Selected comments, only fetched for candidates with include_comments
+  comments?: IssueComment[];
+}
+
+export interface IssueComment {
+  id: number;
+  body: string;
+  author: string;
+  // e.g. OWNER, MEMBER, COLLABORATOR, CONTRIBUTOR or NONE
+  authorAssociation?: string;
+  createdAt: string;
 }
 
 export type GetIssuesFn = (params: GetIssuesParams) => Promise<Issue[]>;
 
+// `complete` is false when a page failed and the later pages were skipped
+export type ListIssuesFn = (
+  params: GetIssuesParams,
+) => Promise<{ issues: Issue[]; complete: boolean }>;
+
 interface GetIssuesParams {
   octokit: InstanceType<typeof GitHub>;
   owner: string;
   repo: string;
-  issueNumber: number;
+  // Left out of the results, usually the issue being checked
+  issueNumber?: number;
   issueStateFilter: "all" | "open" | "closed";
   timeFilter?: string;
+  includePullRequests: boolean;
+  filters?: CandidateFilters;
+}
+
+export type GetIssueFn = (params: GetIssueParams) => Promise<Issue | undefined>;
+
+interface GetIssueParams {
+  octokit: InstanceType<typeof GitHub>;
+  owner: string;
+  repo: string;
+  issueNumber: number;
+}
+
+export type GetRepoFileFn = (
+  params: GetRepoFileParams,
+) => Promise<string | undefined>;
+
+interface GetRepoFileParams {
+  octokit: InstanceType<typeof GitHub>;
+  owner: string;
+  repo: string;
+  // Read from the default branch
+  path: string;
+}
+
+export type GetPullRequestsFn = (
+  params: GetPullRequestsParams,
+) => Promise<Issue[]>;
+
+interface GetPullRequestsParams {
+  octokit: InstanceType<typeof GitHub>;
+  owner: string;
+  repo: string;
+  pullNumber: number;
+  filters?: CandidateFilters;
+}
+
+export type GetPullRequestFilesFn = (
+  params: GetPullRequestFilesParams,
+) => Promise<string[]>;
+
+interface GetPullRequestFilesParams {
+  octokit: InstanceType<typeof GitHub>;
+  owner: string;
+  repo: string;
+  pullNumber: number;
 }
 
 export type CreateIssueCommentFn = (
@@ -45,6 +171,152 @@ interface CreateCommentParams {
   body: string;
 }
 
+export type CreateDiscussionCommentFn = (
+  params: CreateDiscussionCommentParams,
+) => Promise<boolean>;
+
+interface CreateDiscussionCommentParams {
+  octokit: InstanceType<typeof GitHub>;
+  // GraphQL node ID of the discussion
+  discussionId: string;
+  body: string;
+}
+
+export type GetDiscussionsFn = (
+  params: GetDiscussionsParams,
+) => Promise<Issue[]>;
+
+interface GetDiscussionsParams {
+  octokit: InstanceType<typeof GitHub>;
+  owner: string;
+  repo: string;
+  // Left out of the results, usually the discussion being checked
+  discussionNumber?: number;
+  issueStateFilter: "all" | "open" | "closed";
+  timeFilter?: string;
+  filters?: CandidateFilters;
+}
+
+export type ListOrgReposFn = (params: ListOrgReposParams) => Promise<string[]>;
+
+interface ListOrgReposParams {
+  octokit: InstanceType<typeof GitHub>;
+  org: string;
+}
+
+export type GetLabeledIssuesFn = (
+  params: GetLabeledIssuesParams,
+) => Promise<Issue[]>;
+
+interface GetLabeledIssuesParams {
+  octokit: InstanceType<typeof GitHub>;
+  owner: string;
+  repo: string;
+  label: string;
+}
+
+export type ListIssueCommentsFn = (
+  params: ListCommentsParams,
+) => Promise<IssueComment[]>;
+
+interface ListCommentsParams {
+  octokit: InstanceType<typeof GitHub>;
+  owner: string;
+  repo: string;
+  issueNumber: number;
+}
+
+export interface CommentReaction {
+  // e.g. "+1", "-1", "heart"
+  content: string;
+  user: string;
+}
+
+export type ListCommentReactionsFn = (params: {
+  octokit: InstanceType<typeof GitHub>;
+  owner: string;
+  repo: string;
+  commentId: number;
+}) => Promise<CommentReaction[]>;
+
+export interface IssueEvent {
+  // e.g. "labeled", "unlabeled", "closed"
+  event: string;
+  label?: string;
+  actor: string;
+  // Apps such as github-actions[bot], including this action
+  actorIsBot: boolean;
+  createdAt: string;
+}
+
+export type ListIssueEventsFn = (
+  params: ListCommentsParams,
+) => Promise<IssueEvent[]>;
+
+export type FindIssueCommentFn = (
+  params: FindCommentParams,
+) => Promise<number | undefined>;
+
+interface FindCommentParams {
+  octokit: InstanceType<typeof GitHub>;
+  owner: string;
+  repo: string;
+  issueNumber: number;
+  marker: string;
+}
+
+export type UpdateIssueCommentFn = (
+  params: UpdateCommentParams,
+) => Promise<boolean>;
+
+interface UpdateCommentParams {
+  octokit: InstanceType<typeof GitHub>;
+  owner: string;
+  repo: string;
+  commentId: number;
+  body: string;
+}
+
+export type DeleteIssueCommentFn = (
+  params: DeleteCommentParams,
+) => Promise<boolean>;
+
+interface DeleteCommentParams {
+  octokit: InstanceType<typeof GitHub>;
+  owner: string;
+  repo: string;
+  commentId: number;
+}
+
+export type UpsertIssueCommentFn = (
+  params: UpsertCommentParams,
+) => Promise<boolean>;
+
+interface UpsertCommentParams {
+  octokit: InstanceType<typeof GitHub>;
+  owner: string;
+  repo: string;
+  issueNumber: number;
+  // When undefined, the previous bot comment (if any) is deleted
+  body?: string;
+}
+
+export type CommentMode = "create" | "upsert" | "none";
+
+export type UpsertTrackingIssueFn = (
+  params: UpsertTrackingIssueParams,
+) => Promise<number | undefined>;
+
+interface UpsertTrackingIssueParams {
+  octokit: InstanceType<typeof GitHub>;
+  owner: string;
+  repo: string;
+  title: string;
+  // Must contain `marker`, which identifies the issue on later runs
+  body: string;
+  marker: string;
+}
+
 export type AddIssueLabelsFn = (params: AddLabelsParams) => Promise<boolean>;
 
 interface AddLabelsParams {
@@ -55,8 +327,334 @@ interface AddLabelsParams {
   labels: string[];
 }
 
+export type Likelihood = "high" | "medium" | "low";
+
 export interface ParsedOutput {
   issue: number;
-  likelihood: "high" | "medium" | "low";
+  // "owner/repo" of candidates from another repository
+  repo?: string | null;
+  likelihood: Likelihood;
   reason?: string;
+  evidence?: Evidence;
+}
+
+// Short verbatim quotes the model cites from each issue
+export interface Evidence {
+  current: string;
+  candidate: string;
+}
+
+export interface OutputValidation {
+  accepted: ParsedOutput[];
+  rejected: { output: ParsedOutput; reason: string }[];
+}
+
+// ParsedOutput enriched with candidate details, exposed as the `duplicates` output
+export interface DuplicateMatch extends ParsedOutput {
+  title: string;
+  state: string;
+  url: string;
+  // Discussions only
+  answered?: boolean;
+}
+
+export type CloseIssueAsDuplicateFn = (
+  params: CloseIssueParams,
+) => Promise<boolean>;
+
+interface CloseIssueParams {
+  octokit: InstanceType<typeof GitHub>;
+  owner: string;
+  repo: string;
+  issueNumber: number;
+}
+
+export type RemoveIssueLabelFn = (
+  params: RemoveLabelParams,
+) => Promise<boolean>;
+
+interface RemoveLabelParams {
+  octokit: InstanceType<typeof GitHub>;
+  owner: string;
+  repo: string;
+  issueNumber: number;
+  label: string;
+}
+
+export type ActionMode = "check" | "close-pending" | "sweep";
+
+export interface CloseNotice {
+  duplicateOf: number;
+  closeAfter: string;
+}
+
+// Commands maintainers post in issue comments
+export type SlashCommand =
+  | { name: "check"; issueStateFilter?: "all" | "open" | "closed" }
+  | { name: "not-duplicate"; candidates: { issue: number; repo?: string }[] }
+  | { name: "duplicate-of"; issue: number };
+
+// Repository roles, from the least to the most privileged
+export type PermissionLevel =
+  | "read"
+  | "triage"
+  | "write"
+  | "maintain"
+  | "admin";
+
+export type GetCollaboratorPermissionFn = (params: {
+  octokit: InstanceType<typeof GitHub>;
+  owner: string;
+  repo: string;
+  username: string;
+}) => Promise<PermissionLevel | undefined>;
+
+export type CreateCommentReactionFn = (params: {
+  octokit: InstanceType<typeof GitHub>;
+  owner: string;
+  repo: string;
+  commentId: number;
+  content: "+1" | "confused";
+}) => Promise<boolean>;
+
+export interface ScoredIssue {
+  issue: Issue;
+  score: number;
+}
+
+export interface LexicalRanking {
+  kept: ScoredIssue[];
+  dropped: ScoredIssue[];
+}
+
+// Error details of an issue, normalized for exact comparison
+export interface ErrorSignature {
+  // e.g. "TypeError", "java.lang.NullPointerException" or "panic"
+  exceptionTypes: string[];
+  // Exception type and message, e.g. "typeerror: cannot read properties of undefined"
+  messages: string[];
+  // Frames of the first stack trace, from the top
+  frames: string[];
+  // e.g. "ERR_REQUIRE_ESM", "0x80004005"
+  codes: string[];
+}
+
+export interface WorkerPool {
+  readonly limit: number;
+  // Halves the concurrency limit (minimum 1) and returns the new limit
+  throttle: () => number;
+  map: <T, R>(
+    items: T[],
+    task: (item: T, index: number) => Promise<R>,
+  ) => Promise<R[]>;
+}
+
+// The parts of the Actions job summary the duplicate check writes to, so the
+// CLI can send the same report elsewhere
+export interface RunSummary {
+  addHeading(text: string): unknown;
+  addRaw(text: string): unknown;
+  addDetails(label: string, content: string): unknown;
+}
+
+// Optional parts of the comment, rendered with {{placeholder}} values
+export interface CommentTemplate {
+  // Replaces the heading and introduction
+  header?: string;
+  // Rendered once per match instead of the default layout
+  item?: string;
+  // Appended after the matches, e.g. a link to the contributing guide
+  footer?: string;
+}
+
+// Settings read from the repository config file
+export interface RepoConfig {
+  // Input values as strings, read like action inputs
+  inputs: Record<string, string>;
+  // Domain-specific instructions appended to the prompts
+  promptAdditions?: string;
+  commentTemplate: CommentTemplate;
+}
+
+// Narrows the candidates on top of the state and time filters
+export interface CandidateFilters {
+  // Candidates need at least one of these labels, any labels when empty
+  includeLabels: string[];
+  excludeLabels: string[];
+  // Author logins, e.g. bots
+  excludeAuthors: string[];
+  // Milestone title, "none" for no milestone or "*" for any milestone
+  milestone?: string;
+  // ISO date compared with the creation time
+  createdAfter?: string;
+  // GitHub search qualifiers, fetches issues through the search API
+  searchQuery?: string;
+}
+
+export interface CheckConfig {
+  owner: string;
+  repo: string;
+  issueNumber: number;
+  issueTitle: string;
+  issueBody: string;
+  // Compares the pull request against other open pull requests
+  pullRequestMode: boolean;
+  provider: AiProvider;
+  endpoint: string;
+  aiToken: string;
+  modelName: string;
+  structuredOutput: boolean;
+  maxRetries: number;
+  failOnAiError: boolean;
+  concurrency: number;
+  maxTokens: number;
+  batchSize: number;
+  maxInputTokens: number;
+  maxIssueTokens: number;
+  maxCandidates: number;
+  minLexicalScore: number;
+  issueStateFilter: "all" | "open" | "closed";
+  includePullRequests: boolean;
+  timeFilter?: string;
+  candidateFilters: CandidateFilters;
+  // Other "owner/repo" or "org:<organization>" entries whose issues are candidates
+  candidateRepos: string[];
+  // Adds the discussions of the repository to the candidates
+  includeDiscussions: boolean;
+  // Appended to the system and rerank prompts
+  promptAdditions?: string;
+  minLikelihood: Likelihood;
+  rerank: boolean;
+  requireEvidence: boolean;
+  // Reports candidates sharing an error message or stack trace as "high"
+  matchErrorSignatures: boolean;
+  // Comments added to each candidate reaching the model, 0 disables
+  maxComments: number;
+}
+
+// Everything but the issue being checked, shared by all checks of a run
+export type CheckSettings = Omit<
+  CheckConfig,
+  "issueNumber" | "issueTitle" | "issueBody"
+>;
+
+export type RunDuplicateCheckFn = (params: {
+  octokit: InstanceType<typeof GitHub>;
+  config: CheckConfig;
+  // Prefetched candidates, e.g. in sweep mode; fetched from GitHub if omitted
+  candidates?: Issue[];
+  // Earlier verdicts; cached pairs skip inference and new verdicts are stored
+  verdictCache?: VerdictCache;
+  // Pair keys (see pairKey) rejected by maintainers, never reported again
+  suppressedPairs?: Set<string>;
+  summary: RunSummary;
+  // Progress output, console.log by default
+  log?: LogFn;
+}) => Promise<CheckResult>;
+
+export interface CheckResult {
+  issuesToCompare: Issue[];
+  // Consolidated matches at or above minLikelihood, in ranked order
+  findings: ParsedOutput[];
+  aiErrors: string[];
+  // AI errors occurred with failOnAiError set; findings are empty
+  failed: boolean;
+}
+
+// A pairwise match found while sweeping the backlog
+export interface SweepMatch {
+  issue: number;
+  duplicate: number;
+  likelihood: Likelihood;
+  reason?: string;
+}
+
+export interface DuplicateCluster {
+  id: number;
+  // Ascending, so the oldest issue comes first
+  issues: number[];
+  // Strongest likelihood among the matches
+  likelihood: Likelihood;
+  matches: SweepMatch[];
+}
+
+export interface VerdictCache {
+  readonly stats: { hits: number; misses: number };
+  // null means the pair was judged not to be a duplicate
+  get(key: string): ParsedOutput | null | undefined;
+  set(key: string, verdict: ParsedOutput | null): void;
+}
+
+// An issue closed as a duplicate, replayed against the candidates it had
+export interface EvalCase {
+  issue: Issue;
+  // Ground truth from the "Duplicate of #N" comments
+  duplicateOf: number[];
+  candidates: Issue[];
+}
+
+export interface EvalDataset {
+  version: number;
+  // "owner/repo" the cases come from
+  repo: string;
+  createdAt: string;
+  cases: EvalCase[];
+}
+
+// A model and prompt combination to evaluate
+export interface EvalVariant {
+  name: string;
+  modelName: string;
+  promptAdditions?: string;
+}
+
+export interface EvalMetrics {
+  cases: number;
+  // Cases without a result because of AI errors, left out of the counts
+  failedCases: number;
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  // null without any prediction (precision) or expected match (recall)
+  precision: number | null;
+  recall: number | null;
+  // Predictions and correct predictions per likelihood
+  calibration: Record<Likelihood, { predicted: number; correct: number }>;
+}
+
+export interface EvalReport {
+  variant: EvalVariant;
+  metrics: EvalMetrics;
+}
+
+export interface FeedbackCounts {
+  suggested: number;
+  confirmed: number;
+  rejected: number;
+  // Resolved without a reaction, label change or duplicate close
+  expired: number;
+}
+
+// The matches posted for an issue, polled for feedback on later runs
+export interface TrackedSuggestion {
+  issue: number;
+  candidates: { issue: number; repo?: string }[];
+  suggestedAt: string;
+}
+
+export interface SuppressedPair {
+  // See pairKey
+  key: string;
+  issue: number;
+  candidate: string;
+  reason: "reaction" | "label" | "command";
+  rejectedAt: string;
+}
+
+export interface FeedbackStore {
+  version: number;
+  pending: TrackedSuggestion[];
+  suppressed: SuppressedPair[];
+  // Issue pair counts per month ("YYYY-MM")
+  months: Record<string, FeedbackCounts>;
 }
@@ -1,35 +1,256 @@
-import type { Issue, ParsedOutput } from "./types";
+import type {
+  AiErrorKind,
+  AiProvider,
+  ActionMode,
+  CandidateFilters,
+  CloseNotice,
+  CommentTemplate,
+  CommentMode,
+  DuplicateMatch,
+  Issue,
+  IssueComment,
+  IssueKind,
+  Likelihood,
+  OutputValidation,
+  ParsedOutput,
+  PermissionLevel,
+} from "./types";
 
-export const systemPromptMsg = `You are an assistant that identifies potential duplicate or semantically similar GitHub issues.
+// Hidden marker used to find the comment posted by previous runs
+export const COMMENT_MARKER = "<!-- duplicate-identifier-action -->";
+
+// Prefix of the hidden marker carrying the pending auto-close metadata
+export const CLOSE_NOTICE_MARKER =
+  "<!-- duplicate-identifier-action:close-notice";
+
+// Prefix of the hidden marker listing the matches of the duplicate comment
+export const FINDINGS_MARKER = "<!-- duplicate-identifier-action:findings";
+
+// Cap on the items of one reply; `max_tokens` must leave room for all of them
+export const MAX_OUTPUT_ITEMS = 15;
+
+export const systemPromptMsg = `You are an assistant that identifies potential duplicate or semantically similar GitHub issues or pull requests.
 Return ONLY a JSON array. Include ONLY issues that have meaningful similarity to the current issue.
-Output format example: [{"issue":23,"likelihood":"high", "reason":"Both issues refer to fixing a similar bug in the authentication flow."},{"issue":30,"likelihood":"medium","reason":"Some overlapping content in the mention of processing error codes."}]
+For pull requests, also compare the changed file paths.
+Candidate comments, when listed, often explain the root cause or the fix; use them as context (maintainer comments are the most reliable).
+Candidates from other repositories are listed as owner/repo#number; for those, also return "repo":"owner/repo".
+Output format example: [{"issue":23,"likelihood":"high", "reason":"Both issues refer to fixing a similar bug in the authentication flow.","evidence":{"current":"login fails after the token refresh","candidate":"token refresh breaks the login"}},{"issue":30,"likelihood":"medium","reason":"Some overlapping content in the mention of processing error codes.","evidence":{"current":"returns error code 502","candidate":"error code 502 when uploading"}}]
 Rules:
 - likelihood must be one of: high | medium | low
-- Provide at most 15 items.
+- evidence.current and evidence.candidate must be short verbatim quotes (copied exactly, a few words to one sentence) from the current issue and from the candidate issue.
+- Only use issue numbers from the candidate list.
+- Provide at most ${MAX_OUTPUT_ITEMS} items.
 - If no sufficiently similar issues exist, return []
 - DO NOT add commentary, markdown, code fences, or any text outside the raw JSON array.`;
 
+export const repairPromptMsg = `Your previous reply could not be parsed. Repair your output: reply with ONLY the raw JSON array in the requested format, without commentary, markdown or code fences.`;
+
+// JSON schema for endpoints supporting response_format; the root must be an object
+export const duplicatesJsonSchema = {
+  name: "duplicates",
+  strict: true,
+  schema: {
+    type: "object",
+    properties: {
+      duplicates: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            issue: { type: "integer" },
+            // Strict schemas need every property, null for the same repository
+            repo: { type: ["string", "null"] },
+            likelihood: { type: "string", enum: ["high", "medium", "low"] },
+            reason: { type: "string" },
+            evidence: {
+              type: "object",
+              properties: {
+                current: { type: "string" },
+                candidate: { type: "string" },
+              },
+              required: ["current", "candidate"],
+              additionalProperties: false,
+            },
+          },
+          required: ["issue", "repo", "likelihood", "reason", "evidence"],
+          additionalProperties: false,
+        },
+      },
+    },
+    required: ["duplicates"],
+    additionalProperties: false,
+  },
+};
+
+export const rerankPromptMsg = `You are an assistant that ranks candidate duplicate GitHub issues or pull requests.
+The candidates below were each already judged similar to the current issue. Compare them with each other and with the current issue.
+Return ONLY a JSON array of the candidates ordered from most to least likely duplicate.
+Output format example: [{"issue":23,"likelihood":"high","reason":"Same crash in the token refresh flow."},{"issue":30,"likelihood":"medium","reason":"Related timeout, different component."}]
+Rules:
+- likelihood must be one of: high | medium | low
+- Only include issues from the candidate list. For candidates listed as owner/repo#number, also return "repo":"owner/repo".
+- DO NOT add commentary, markdown, code fences, or any text outside the raw JSON array.`;
+
+// Domain-specific instructions from the config file go after the rules
+export const withPromptAdditions = (
+  prompt: string,
+  promptAdditions?: string,
+): string =>
+  promptAdditions?.trim()
+    ? `${prompt}\nAdditional instructions:\n${promptAdditions.trim()}`
+    : prompt;
+
 export const buildCurrentIssueSummary = (
   issueNumber: number,
   issueTitle: string,
   issueBody: string,
+  files?: string[],
 ): string => {
-  return `Current Issue (#${issueNumber})\nTitle: ${issueTitle}\nBody:\n${issueBody}`;
+  const summary = `Current Issue (#${issueNumber})\nTitle: ${issueTitle}\nBody:\n${issueBody}`;
+  return files?.length ? `${summary}\n${formatFiles(files)}` : summary;
+};
+
+// Numbers alone only identify issues of the checked repository
+export const formatIssueRef = (number: number, repo?: string | null): string =>
+  repo ? `${repo}#${number}` : `#${number}`;
+
+// Written by GitHub when an issue is closed as a duplicate from the UI
+const DUPLICATE_OF_PATTERN = /^\s*duplicate of #(\d+)\b/gim;
+
+// Issue numbers referenced by "Duplicate of #N" lines, in order
+export const parseDuplicateOf = (body: string): number[] =>
+  [...body.matchAll(DUPLICATE_OF_PATTERN)].map(([, number]) =>
+    parseInt(number!, 10),
+  );
+
+// Identifies an issue pair regardless of which of the two was checked
+export const pairKey = (
+  issueNumber: number,
+  candidate: { issue: number; repo?: string | null },
+): string =>
+  [formatIssueRef(issueNumber), formatIssueRef(candidate.issue, candidate.repo)]
+    .sort()
+    .join(" ");
+
+// Issues from other repositories carry `repo`, those of the checked one don't
+export const findCandidate = (
+  issues: Issue[],
+  { issue, repo }: { issue: number; repo?: string | null },
+): Issue | undefined =>
+  issues.find(
+    (candidate) =>
+      candidate.number === issue && (candidate.repo ?? null) === (repo ?? null),
+  );
+
+const formatFiles = (files: string[]): string =>
+  `Changed Files:\n${files.join("\n")}`;
+
+const KIND_NAMES: Record<IssueKind, string> = {
+  issue: "Issue",
+  pull_request: "Pull Request",
+  discussion: "Discussion",
+};
+
+const formatKind = ({ kind, answered }: Issue): string =>
+  kind === "discussion" && answered
+    ? `${KIND_NAMES[kind]} (answered ✅)`
+    : KIND_NAMES[kind];
+
+const MAINTAINER_ASSOCIATIONS = ["OWNER", "MEMBER", "COLLABORATOR"];
+
+const isMaintainerComment = ({ authorAssociation }: IssueComment): boolean =>
+  MAINTAINER_ASSOCIATIONS.includes(authorAssociation ?? "");
+
+const formatComments = (comments: IssueComment[]): string =>
+  `Comments:\n${comments
+    .map(
+      ({ author, authorAssociation, body }) =>
+        `@${author}${authorAssociation ? ` (${authorAssociation})` : ""}: ${body}`,
+    )
+    .join("\n")}`;
+
+export const CANDIDATE_SEPARATOR = "\n---\n";
+
+export const formatCandidate = (issue: Issue): string =>
+  [
+    `${formatIssueRef(issue.number, issue.repo)} ${issue.title}`,
+    issue.body,
+    ...(issue.files?.length ? [formatFiles(issue.files)] : []),
+    ...(issue.comments?.length ? [formatComments(issue.comments)] : []),
+  ].join("\n");
+
+/**
+ * Picks up to `max` comments, maintainers (OWNER, MEMBER, COLLABORATOR) first
+ * and then the most recent, returned in chronological order. Comments left by
+ * this action are skipped.
+ */
+export const selectComments = (
+  comments: IssueComment[],
+  max: number,
+): IssueComment[] =>
+  comments
+    .filter(
+      ({ body }) =>
+        !body.includes(COMMENT_MARKER) && !body.includes(CLOSE_NOTICE_MARKER),
+    )
+    .sort(
+      (a, b) =>
+        Number(isMaintainerComment(b)) - Number(isMaintainerComment(a)) ||
+        b.createdAt.localeCompare(a.createdAt),
+    )
+    .slice(0, max)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+const MAX_RESOLUTION_EXCERPT_LENGTH = 200;
+
+/**
+ * Describes how a closed issue was resolved: the close reason and an excerpt
+ * of the latest maintainer comment, when comments were fetched. Undefined when
+ * neither is known.
+ */
+export const describeResolution = (issue: Issue): string | undefined => {
+  if (issue.state !== "closed") return undefined;
+
+  const closed = issue.stateReason
+    ? `Closed as ${issue.stateReason.replace(/_/g, " ")}`
+    : "Closed";
+  const latest = (issue.comments ?? []).findLast(isMaintainerComment);
+  if (!latest) return issue.stateReason ? closed : undefined;
+
+  const excerpt = latest.body.replace(/\s+/g, " ").trim();
+  return `${closed}, @${latest.author}: "${
+    excerpt.length > MAX_RESOLUTION_EXCERPT_LENGTH
+      ? `${excerpt.slice(0, MAX_RESOLUTION_EXCERPT_LENGTH)}…`
+      : excerpt
+  }"`;
 };
 
 export const buildBatchUserContent = (
   currentIssueSummary: string,
   batchId: number,
   batch: Issue[],
+  systemPrompt: string = systemPromptMsg,
 ): string => {
   if (batch.length === 0) {
     throw new Error("Batch cannot be empty");
   }
-  const batchText = batch
-    .map((issue) => `#${issue.number} ${issue.title}\n${issue.body}`)
-    .join("\n---\n");
+  const batchText = batch.map(formatCandidate).join(CANDIDATE_SEPARATOR);
 
-  return `${systemPromptMsg}\n\n${currentIssueSummary}\n\nCandidate Issues (Batch ${batchId}):\n${batchText}`;
+  return `${systemPrompt}\n\n${currentIssueSummary}\n\nCandidate Issues (Batch ${batchId}):\n${batchText}`;
+};
+
+export const buildRerankUserContent = (
+  currentIssueSummary: string,
+  shortlist: Issue[],
+): string => {
+  if (shortlist.length === 0) {
+    throw new Error("Shortlist cannot be empty");
+  }
+  const shortlistText = shortlist
+    .map(formatCandidate)
+    .join(CANDIDATE_SEPARATOR);
+
+  return `${currentIssueSummary}\n\nShortlisted Candidates:\n${shortlistText}`;
 };
 
 export const verifyIssueStateInput = (
@@ -44,6 +265,100 @@ export const verifyIssueStateInput = (
   );
 };
 
+export const verifyCommentModeInput = (commentMode: string): CommentMode => {
+  const validModes: CommentMode[] = ["create", "upsert", "none"];
+  if (validModes.includes(commentMode as CommentMode)) {
+    return commentMode as CommentMode;
+  }
+  throw new Error(
+    `Invalid comment mode: ${commentMode}. Valid modes are: ${validModes.join(", ")}`,
+  );
+};
+
+export const verifyModeInput = (mode: string): ActionMode => {
+  const validModes: ActionMode[] = ["check", "close-pending", "sweep"];
+  if (validModes.includes(mode as ActionMode)) {
+    return mode as ActionMode;
+  }
+  throw new Error(
+    `Invalid mode: ${mode}. Valid modes are: ${validModes.join(", ")}`,
+  );
+};
+
+export const PERMISSION_LEVELS: PermissionLevel[] = [
+  "read",
+  "triage",
+  "write",
+  "maintain",
+  "admin",
+];
+
+export const verifyPermissionInput = (permission: string): PermissionLevel => {
+  if (PERMISSION_LEVELS.includes(permission as PermissionLevel)) {
+    return permission as PermissionLevel;
+  }
+  throw new Error(
+    `Invalid permission: ${permission}. Valid permissions are: ${PERMISSION_LEVELS.join(", ")}`,
+  );
+};
+
+export const hasPermission = (
+  permission: PermissionLevel | undefined,
+  required: PermissionLevel,
+): boolean =>
+  permission !== undefined &&
+  PERMISSION_LEVELS.indexOf(permission) >= PERMISSION_LEVELS.indexOf(required);
+
+export const verifyProviderInput = (provider: string): AiProvider => {
+  const validProviders: AiProvider[] = [
+    "azure",
+    "openai",
+    "anthropic",
+    "ollama",
+  ];
+  if (validProviders.includes(provider as AiProvider)) {
+    return provider as AiProvider;
+  }
+  throw new Error(
+    `Invalid provider: ${provider}. Valid providers are: ${validProviders.join(", ")}`,
+  );
+};
+
+export const verifyLikelihoodInput = (likelihood: string): Likelihood => {
+  const validLikelihoods: Likelihood[] = ["high", "medium", "low"];
+  if (validLikelihoods.includes(likelihood as Likelihood)) {
+    return likelihood as Likelihood;
+  }
+  throw new Error(
+    `Invalid likelihood: ${likelihood}. Valid likelihoods are: ${validLikelihoods.join(", ")}`,
+  );
+};
+
+/**
+ * Parses a label mapping such as "high:duplicate,medium:possible-duplicate".
+ * A likelihood may appear more than once to map it to several labels.
+ */
+export const parseLikelihoodLabels = (
+  input: string,
+): Partial<Record<Likelihood, string[]>> => {
+  const mapping: Partial<Record<Likelihood, string[]>> = {};
+  for (const entry of input.split(",")) {
+    if (!entry.trim()) continue;
+    const separator = entry.indexOf(":");
+    const label = entry.slice(separator + 1).trim();
+    if (separator === -1 || !label) {
+      throw new Error(
+        `Invalid likelihood label mapping: ${entry.trim()}. Expected format is likelihood:label`,
+      );
+    }
+    const likelihood = verifyLikelihoodInput(
+      entry.slice(0, separator).trim().toLowerCase(),
+    );
+    mapping[likelihood] = [...(mapping[likelihood] ?? []), label];
+  }
+  return mapping;
+};
+
 export const processDateInput = (date: string): string => {
   const parsedDate = new Date(date);
   if (isNaN(parsedDate.getTime())) {
@@ -54,45 +369,630 @@ export const processDateInput = (date: string): string => {
   return parsedDate.toISOString();
 };
 
+const splitList = (input: string): string[] =>
+  input
+    .split(",")
+    .map((value) => value.trim())
+    .filter(Boolean);
+
+/**
+ * Builds the candidate filters from their raw inputs: comma-separated label
+ * and author lists, a milestone, a creation date and a search query.
+ */
+export const parseCandidateFilters = ({
+  includeLabels = "",
+  excludeLabels = "",
+  excludeAuthors = "",
+  milestone = "",
+  createdAfter = "",
+  searchQuery = "",
+}: {
+  includeLabels?: string;
+  excludeLabels?: string;
+  excludeAuthors?: string;
+  milestone?: string;
+  createdAfter?: string;
+  searchQuery?: string;
+}): CandidateFilters => ({
+  includeLabels: splitList(includeLabels),
+  excludeLabels: splitList(excludeLabels),
+  excludeAuthors: splitList(excludeAuthors),
+  ...(milestone.trim() ? { milestone: milestone.trim() } : {}),
+  ...(createdAfter ? { createdAfter: processDateInput(createdAfter) } : {}),
+  ...(searchQuery.trim() ? { searchQuery: searchQuery.trim() } : {}),
+});
+
+/**
+ * Parses the candidate repositories, separated by commas or new lines: each
+ * entry is "owner/repo" or "org:<organization>" for all of its repositories.
+ */
+export const parseCandidateRepos = (input: string): string[] => {
+  const entries = input
+    .split(/[,\n]/)
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  for (const entry of entries) {
+    if (!/^(org:[\w.-]+|[\w.-]+\/[\w.-]+)$/.test(entry)) {
+      throw new Error(
+        `Invalid candidate repository: ${entry}. Expected owner/repo or org:<organization>`,
+      );
+    }
+  }
+  return [...new Set(entries)];
+};
+
+// One line for the job summary
+export const describeCandidateFilters = ({
+  includeLabels,
+  excludeLabels,
+  excludeAuthors,
+  milestone,
+  createdAfter,
+  searchQuery,
+}: CandidateFilters): string =>
+  [
+    ...(includeLabels.length > 0
+      ? [`labels ${includeLabels.join(" | ")}`]
+      : []),
+    ...(excludeLabels.length > 0
+      ? [`not labeled ${excludeLabels.join(", ")}`]
+      : []),
+    ...(excludeAuthors.length > 0
+      ? [`not by ${excludeAuthors.join(", ")}`]
+      : []),
+    ...(milestone ? [`milestone ${milestone}`] : []),
+    ...(createdAfter ? [`created after ${createdAfter}`] : []),
+    ...(searchQuery ? [`search "${searchQuery}"`] : []),
+  ].join("; ") || "None";
+
+const includesIgnoreCase = (values: string[], value: string) =>
+  values.some((entry) => entry.toLowerCase() === value.toLowerCase());
+
+// Labels and logins are compared case-insensitively, like on GitHub
+export const matchesCandidateFilters = (
+  issue: Issue,
+  {
+    includeLabels,
+    excludeLabels,
+    excludeAuthors,
+    milestone,
+    createdAfter,
+  }: CandidateFilters,
+): boolean => {
+  const labels = issue.labels ?? [];
+  if (
+    includeLabels.length > 0 &&
+    !labels.some((label) => includesIgnoreCase(includeLabels, label))
+  ) {
+    return false;
+  }
+  if (labels.some((label) => includesIgnoreCase(excludeLabels, label))) {
+    return false;
+  }
+  if (issue.author && includesIgnoreCase(excludeAuthors, issue.author)) {
+    return false;
+  }
+  if (milestone === "none" && issue.milestone) return false;
+  if (milestone === "*" && !issue.milestone) return false;
+  if (
+    milestone &&
+    milestone !== "none" &&
+    milestone !== "*" &&
+    issue.milestone !== milestone
+  ) {
+    return false;
+  }
+  return !createdAfter || new Date(issue.createdAt) >= new Date(createdAfter);
+};
+
+// Scopes a free-form search query to the repository and the state filter
+export const buildSearchQuery = ({
+  owner,
+  repo,
+  searchQuery,
+  issueStateFilter,
+  includePullRequests,
+}: {
+  owner: string;
+  repo: string;
+  searchQuery: string;
+  issueStateFilter: "all" | "open" | "closed";
+  includePullRequests: boolean;
+}): string =>
+  [
+    `repo:${owner}/${repo}`,
+    ...(includePullRequests ? [] : ["is:issue"]),
+    ...(issueStateFilter === "all" ? [] : [`state:${issueStateFilter}`]),
+    searchQuery,
+  ].join(" ");
+
 export const chunk = <T>(arr: T[], size: number): T[][] => {
   const out: T[][] = [];
   for (let i = 0; i < arr.length; i += size) out.push(arr.slice(i, i + size));
   return out;
 };
 
+// Returns the index of the bracket closing the one at `start`, skipping strings
+const findClosingBracket = (text: string, start: number): number => {
+  let depth = 0;
+  let inString = false;
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (char === "\\") i++;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === "[") {
+      depth++;
+    } else if (char === "]") {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return -1;
+};
+
+const parseJson = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Extracts the duplicates array from a model reply, tolerating code fences,
+ * surrounding prose and the `{"duplicates": [...]}` object used by
+ * schema-constrained output. Returns undefined when no array is found.
+ */
+export const extractJsonArray = (text: string): unknown[] | undefined => {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const candidate = (fenced ? fenced[1]! : text).trim();
+
+  const whole = parseJson(candidate);
+  if (Array.isArray(whole)) return whole;
+  if (
+    typeof whole === "object" &&
+    whole !== null &&
+    Array.isArray((whole as { duplicates?: unknown }).duplicates)
+  ) {
+    return (whole as { duplicates: unknown[] }).duplicates;
+  }
+
+  for (
+    let start = candidate.indexOf("[");
+    start !== -1;
+    start = candidate.indexOf("[", start + 1)
+  ) {
+    const end = findClosingBracket(candidate, start);
+    if (end === -1) break;
+    const parsed = parseJson(candidate.slice(start, end + 1));
+    // Skip bracketed prose such as "[1]" that happens to be valid JSON
+    if (
+      Array.isArray(parsed) &&
+      parsed.every((item) => typeof item === "object" && item !== null)
+    ) {
+      return parsed;
+    }
+  }
+  return undefined;
+};
+
 export const verifyJsonResponse = (data: unknown): data is ParsedOutput[] => {
   if (!Array.isArray(data)) return false;
   for (const item of data) {
     if (typeof item !== "object" || item === null) return false;
     if (typeof item.issue !== "number") return false;
-    if (!["high", "medium", "low"].includes(item?.likelihood?.toLowerCase()))
+    if (item.repo != null && typeof item.repo !== "string") return false;
+    if (typeof item.likelihood !== "string") return false;
+    if (!["high", "medium", "low"].includes(item.likelihood.toLowerCase()))
       return false;
   }
   return true;
 };
 
+// Snippets shorter than this could match almost any text
+const MIN_EVIDENCE_LENGTH = 10;
+
+const normalizeText = (text: string): string =>
+  text
+    .toLowerCase()
+    .replace(/[“”]/g, '"')
+    .replace(/[‘’]/g, "'")
+    .replace(/\s+/g, " ")
+    .trim();
+
+export const isVerbatimQuote = (snippet: unknown, text: string): boolean => {
+  if (typeof snippet !== "string") return false;
+  const normalized = normalizeText(snippet);
+  return (
+    normalized.length >= MIN_EVIDENCE_LENGTH &&
+    normalizeText(text).includes(normalized)
+  );
+};
+
+/**
+ * Guards against hallucinated matches: entries citing an issue that was not
+ * in the batch sent are rejected, as are entries whose evidence quotes can't
+ * be found in the real text of both issues. Without `requireEvidence`, entries
+ * lacking verifiable evidence are kept without it. Accepted entries carry the
+ * repository of their candidate, so a number that is unique in the batch
+ * still matches when the model got the repository wrong or left it out.
+ */
+export const validateOutputs = (
+  outputs: ParsedOutput[],
+  batch: Issue[],
+  currentIssueText: string,
+  requireEvidence: boolean,
+): OutputValidation => {
+  const validation: OutputValidation = { accepted: [], rejected: [] };
+
+  for (const entry of outputs) {
+    const sameNumber = batch.filter(({ number }) => number === entry.issue);
+    const candidate =
+      findCandidate(sameNumber, entry) ??
+      (sameNumber.length === 1 ? sameNumber[0] : undefined);
+    if (!candidate) {
+      validation.rejected.push({ output: entry, reason: "issue not in batch" });
+      continue;
+    }
+    const output = { ...entry };
+    delete output.repo;
+    if (candidate.repo) output.repo = candidate.repo;
+
+    const verified =
+      isVerbatimQuote(output.evidence?.current, currentIssueText) &&
+      isVerbatimQuote(output.evidence?.candidate, formatCandidate(candidate));
+
+    if (verified) {
+      validation.accepted.push(output);
+    } else if (requireEvidence) {
+      validation.rejected.push({ output, reason: "evidence not verified" });
+    } else {
+      const withoutEvidence = { ...output };
+      delete withoutEvidence.evidence;
+      validation.accepted.push(withoutEvidence);
+    }
+  }
+
+  return validation;
+};
+
+export const COMMENT_PLACEHOLDERS = [
+  "number",
+  "ref",
+  "title",
+  "likelihood",
+  "reason",
+  "url",
+  "state",
+  "type",
+] as const;
+
+export type CommentPlaceholder = (typeof COMMENT_PLACEHOLDERS)[number];
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+// Names of the {{placeholders}} used in a template
+export const listPlaceholders = (template: string): string[] =>
+  [...template.matchAll(PLACEHOLDER_PATTERN)].map(([, name]) => name!);
+
+// Unknown placeholders are left as they are
+export const renderTemplate = (
+  template: string,
+  values: Partial<Record<string, string>>,
+): string =>
+  template.replace(
+    PLACEHOLDER_PATTERN,
+    (placeholder, name: string) => values[name] ?? placeholder,
+  );
+
 export const buildCommentBody = (
   outputs: ParsedOutput[],
   issuesToCompare: Issue[],
+  maxResults: number = outputs.length,
+  template: CommentTemplate = {},
 ): string => {
   if (outputs.length === 0) {
     return "No similar issues found.";
   }
 
+  // The marker always comes first so later runs find the comment
   const commentLines = [
-    "## ⚠️ Potential Duplicate/Semantically Similar Issues Identified",
-    "The following issues may be duplicates or semantically similar to the current issue. Please review them:",
+    COMMENT_MARKER,
+    ...(template.header !== undefined
+      ? [template.header.trimEnd()]
+      : [
+          "## ⚠️ Potential Duplicate/Semantically Similar Issues Identified",
+          "The following issues may be duplicates or semantically similar to the current issue. Please review them:",
+        ]),
     "",
   ];
 
-  for (const output of outputs) {
-    const issue = issuesToCompare.find(({ number }) => number === output.issue);
-    commentLines.push(`**Issue** #${output.issue}: **${output.likelihood}**`);
+  for (const output of outputs.slice(0, maxResults)) {
+    const issue = findCandidate(issuesToCompare, output);
+    const ref = formatIssueRef(output.issue, output.repo);
+    if (template.item !== undefined) {
+      const values: Record<CommentPlaceholder, string> = {
+        number: String(output.issue),
+        ref,
+        title: issue?.title ?? "",
+        likelihood: output.likelihood,
+        reason: output.reason ?? "",
+        url: issue?.url ?? "",
+        state: issue?.state ?? "",
+        type: issue ? formatKind(issue) : "",
+      };
+      commentLines.push(renderTemplate(template.item, values).trimEnd());
+      continue;
+    }
+    commentLines.push(`**Issue** ${ref}: **${output.likelihood}**`);
     commentLines.push(`**Title:** ${issue?.title || "N/A"}`);
     commentLines.push(`**State:** ${issue?.state || "N/A"}`);
+    const resolution = issue && describeResolution(issue);
+    if (resolution) commentLines.push(`**Resolution:** ${resolution}`);
+    commentLines.push(`**Type:** ${issue ? formatKind(issue) : "N/A"}`);
     commentLines.push(`**Reason:** ${output?.reason || "N/A"}`);
+    if (output.evidence) {
+      commentLines.push(
+        `**Evidence:** "${output.evidence.current}" ↔ ${ref}: "${output.evidence.candidate}"`,
+      );
+    }
+    commentLines.push("");
+  }
+
+  if (outputs.length > maxResults) {
+    commentLines.push(
+      `_${outputs.length - maxResults} more similar issue(s) not shown._`,
+    );
     commentLines.push("");
   }
 
+  if (template.footer !== undefined) {
+    if (commentLines.at(-1) !== "") commentLines.push("");
+    commentLines.push(template.footer.trimEnd());
+  }
+
   return commentLines.join("\n");
 };
+
+export const formatRatio = (value: number | null): string =>
+  value === null ? "n/a" : `${Math.round(value * 100)}%`;
+
+export const likelihoodRank: Record<Likelihood, number> = {
+  high: 3,
+  medium: 2,
+  low: 1,
+};
+
+// The model may answer "High" instead of "high"; verifyJsonResponse allows it
+export const normalizeLikelihood = (likelihood: string): Likelihood =>
+  likelihood.toLowerCase() as Likelihood;
+
+export const getTopDuplicate = (
+  outputs: ParsedOutput[],
+): ParsedOutput | undefined =>
+  outputs.reduce<ParsedOutput | undefined>((top, output) => {
+    if (!top) return output;
+    return likelihoodRank[normalizeLikelihood(output.likelihood)] >
+      likelihoodRank[normalizeLikelihood(top.likelihood)]
+      ? output
+      : top;
+  }, undefined);
+
+export const buildDuplicateMatches = (
+  outputs: ParsedOutput[],
+  issuesToCompare: Issue[],
+): DuplicateMatch[] =>
+  outputs.map((output) => {
+    const issue = findCandidate(issuesToCompare, output);
+    return {
+      ...output,
+      likelihood: normalizeLikelihood(output.likelihood),
+      title: issue?.title ?? "",
+      state: issue?.state ?? "",
+      url: issue?.url ?? "",
+      ...(issue?.kind === "discussion" ? { answered: !!issue.answered } : {}),
+    };
+  });
+
+export const filterByLikelihood = (
+  outputs: ParsedOutput[],
+  minLikelihood: Likelihood,
+): ParsedOutput[] =>
+  outputs.filter(
+    ({ likelihood }) =>
+      likelihoodRank[normalizeLikelihood(likelihood)] >=
+      likelihoodRank[minLikelihood],
+  );
+
+// Labels follow from the strongest match only
+export const getLikelihoodLabels = (
+  outputs: ParsedOutput[],
+  mapping: Partial<Record<Likelihood, string[]>>,
+): string[] => {
+  const top = getTopDuplicate(outputs);
+  return top ? (mapping[normalizeLikelihood(top.likelihood)] ?? []) : [];
+};
+
+/**
+ * Picks the first "high" match that is a valid close target: an open issue,
+ * or one closed as completed. Pull requests and issues of other repositories
+ * are never auto-close targets.
+ */
+export const selectAutoCloseTarget = (
+  outputs: ParsedOutput[],
+  issuesToCompare: Issue[],
+): Issue | undefined => {
+  for (const output of outputs) {
+    if (normalizeLikelihood(output.likelihood) !== "high" || output.repo) {
+      continue;
+    }
+    const issue = findCandidate(issuesToCompare, output);
+    if (!issue || issue.kind !== "issue") continue;
+    if (
+      issue.state === "open" ||
+      (issue.state === "closed" && issue.stateReason === "completed")
+    ) {
+      return issue;
+    }
+  }
+  return undefined;
+};
+
+export const buildCloseNoticeBody = (notice: CloseNotice): string =>
+  [
+    `${CLOSE_NOTICE_MARKER} ${JSON.stringify(notice)} -->`,
+    `### 🔁 Closing as a duplicate of #${notice.duplicateOf}`,
+    `This issue looks like a duplicate of #${notice.duplicateOf} and will be closed automatically after ${new Date(notice.closeAfter).toUTCString()}.`,
+    "If this is not a duplicate, reply to this comment or remove the label and it will stay open.",
+  ].join("\n");
+
+export const parseCloseNotice = (body: string): CloseNotice | undefined => {
+  const start = body.indexOf(CLOSE_NOTICE_MARKER);
+  if (start === -1) return undefined;
+  const end = body.indexOf("-->", start);
+  if (end === -1) return undefined;
+  try {
+    const notice = JSON.parse(
+      body.slice(start + CLOSE_NOTICE_MARKER.length, end),
+    );
+    if (
+      typeof notice?.duplicateOf !== "number" ||
+      typeof notice?.closeAfter !== "string" ||
+      isNaN(new Date(notice.closeAfter).getTime())
+    ) {
+      return undefined;
+    }
+    return { duplicateOf: notice.duplicateOf, closeAfter: notice.closeAfter };
+  } catch {
+    return undefined;
+  }
+};
+
+// Lets /not-duplicate rebuild the comment without the dismissed matches.
+// ">" is escaped so a reason can't end the HTML comment early.
+export const buildFindingsMarker = (findings: ParsedOutput[]): string =>
+  `${FINDINGS_MARKER} ${JSON.stringify(findings).replace(/>/g, "\\u003e")} -->`;
+
+export const parseFindingsMarker = (
+  body: string,
+): ParsedOutput[] | undefined => {
+  const start = body.indexOf(FINDINGS_MARKER);
+  if (start === -1) return undefined;
+  const end = body.indexOf("-->", start);
+  if (end === -1) return undefined;
+  try {
+    const findings: unknown = JSON.parse(
+      body.slice(start + FINDINGS_MARKER.length, end),
+    );
+    return verifyJsonResponse(findings) ? findings : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+// Longest wait honored before a rate limit is treated as an exhausted quota
+export const MAX_RETRY_WAIT_MS = 60_000;
+
+/**
+ * Reads how long to wait before retrying from the Retry-After header (seconds
+ * or HTTP date) or a rate-limit reset header (epoch seconds).
+ */
+export const parseRetryAfterMs = (
+  headers: Record<string, string | undefined>,
+  now: number = Date.now(),
+): number | undefined => {
+  const lower: Record<string, string | undefined> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    lower[name.toLowerCase()] = value;
+  }
+
+  const retryAfter = lower["retry-after"];
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+    const date = new Date(retryAfter).getTime();
+    if (!isNaN(date)) return Math.max(0, date - now);
+  }
+
+  const reset = lower["x-ratelimit-reset"];
+  if (reset && !isNaN(Number(reset))) {
+    return Math.max(0, Number(reset) * 1000 - now);
+  }
+  return undefined;
+};
+
+export const classifyAiError = ({
+  status,
+  retryAfterMs,
+  message,
+}: {
+  status?: number;
+  retryAfterMs?: number;
+  message: string;
+}): AiErrorKind => {
+  if (status === 429) {
+    // GitHub Models reports daily limits as e.g. "UserByModelByDay"
+    const quotaMessage = /quota|ByDay|daily/i.test(message);
+    const longWait = (retryAfterMs ?? 0) > MAX_RETRY_WAIT_MS;
+    return quotaMessage || longWait ? "quota" : "retryable";
+  }
+  if (status === undefined || status === 408 || status >= 500) {
+    return "retryable";
+  }
+  return "fatal";
+};
+
+// Exponential backoff (1s, 2s, 4s, ... up to 30s) unless the server says otherwise
+export const getRetryDelayMs = (
+  attempt: number,
+  retryAfterMs?: number,
+): number => retryAfterMs ?? Math.min(1000 * 2 ** attempt, 30_000);
+
+/**
+ * Merges the per-batch results: one entry per issue, keeping the strongest
+ * likelihood (and its reason), ordered from strongest to weakest.
+ */
+export const consolidateOutputs = (outputs: ParsedOutput[]): ParsedOutput[] => {
+  const byIssue = new Map<string, ParsedOutput>();
+  for (const output of outputs) {
+    const normalized = {
+      ...output,
+      likelihood: normalizeLikelihood(output.likelihood),
+    };
+    const key = formatIssueRef(output.issue, output.repo);
+    const existing = byIssue.get(key);
+    if (
+      !existing ||
+      likelihoodRank[normalized.likelihood] >
+        likelihoodRank[existing.likelihood]
+    ) {
+      byIssue.set(key, normalized);
+    }
+  }
+  return [...byIssue.values()].sort(
+    (a, b) => likelihoodRank[b.likelihood] - likelihoodRank[a.likelihood],
+  );
+};
+
+/**
+ * Orders outputs as ranked by the final comparative model call. Ranked issues
+ * that were not in `outputs` are ignored; outputs the model left out keep
+ * their relative order after the ranked ones.
+ */
+export const applyRanking = (
+  outputs: ParsedOutput[],
+  ranked: ParsedOutput[],
+): ParsedOutput[] => {
+  const result: ParsedOutput[] = [];
+  for (const { issue, repo } of ranked) {
+    const output = outputs.find(
+      (entry) =>
+        entry.issue === issue && (entry.repo ?? null) === (repo ?? null),
+    );
+    if (output && !result.includes(output)) result.push(output);
+  }
+  return result.concat(outputs.filter((output) => !result.includes(output)));
+};